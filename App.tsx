@@ -1,251 +1,548 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Video, Download, Key, X, Loader2, Music, AlertCircle } from 'lucide-react';
-import { AppState, SlideData, NarrationSegment, AppLanguage, AspectRatio, ResolutionScale } from './types';
-import { processPdf } from './services/pdf';
-import { generateScripts, generateAudio, decodeAudioData } from './services/gemini';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Video, Download, Key, X, Loader2, Music, AlertCircle, FolderOpen, Save, History, Subtitles, FileText, ListVideo, FileBraces } from 'lucide-react';
+import { AppState, NarrationSegment, AppLanguage, ProjectSnapshot, VideoContainer, SlideEffects, ProcessingStep, SlideData } from './types';
+import { createScriptProvider, getScriptProviderInfo } from './services/scriptProviders';
+import { createSpeechProvider, getSpeechProviderInfo } from './services/speechProviders';
+import { VoiceOption } from './services/speech';
 import { audioBufferToWav } from './services/audioUtils';
+import { createSnapshot, pickProjectSettings, restoreSnapshot, exportProjectBundle, importProjectBundle, DEFAULT_PROJECT_SETTINGS, PROJECT_FILE_EXTENSION } from './services/project';
+import { saveAutosave, loadAutosave, clearAutosave } from './services/projectStore';
+import { exportVideo, ExportNarrationTrack } from './services/videoExport';
+import { MusicBed, generateBundledLoop } from './services/music';
+import { buildTranscript, createNarrationVoicer } from './services/dialogue';
+import { DeckAnswer, QuestionTurn, selectFocusSlides } from './services/deckQa';
+import { analyzeDeckSlides } from './services/slideAnalysis';
+import { exportNarrationAudio, getAudioFormatInfo } from './services/audioExport';
+import { parseDeck, generateNarration, buildSubtitleFile, buildChapterFile, ChapterFormat, getVoiceSetting as getPipelineVoiceSetting } from './services/pipeline';
+import { RenderServerSettings, RenderJobStatus, DEFAULT_RENDER_SERVER, submitRenderJob, watchRenderJob, downloadRenderFile, cancelRenderJob, toHeadlessFile } from './services/renderServer';
 import Dashboard from './components/Dashboard';
 import PresentationPlayer from './components/PresentationPlayer';
+import CaptionSettings from './components/CaptionSettings';
+import AudioExportSettings from './components/AudioExportSettings';
+import EffectsSettings from './components/EffectsSettings';
+import MusicSettings from './components/MusicSettings';
+import DurationReport from './components/DurationReport';
+import LanguageTracks from './components/LanguageTracks';
+import PronunciationSettings from './components/PronunciationSettings';
+import SlideOrganizer from './components/SlideOrganizer';
+import QAPanel from './components/QAPanel';
 
 const App: React.FC = () => {
   const [apiKey, setApiKey] = useState<string>(process.env.API_KEY || '');
   const [showKeyModal, setShowKeyModal] = useState<boolean>(false);
   const [tempKey, setTempKey] = useState<string>('');
+  const [endpointKey, setEndpointKey] = useState<string>('');
+  const [renderServer, setRenderServer] = useState<RenderServerSettings>(DEFAULT_RENDER_SERVER);
+  const [serverJob, setServerJob] = useState<RenderJobStatus | null>(null);
   
   const [state, setState] = useState<AppState>({
     files: [],
-    duration: 120,
-    style: 'An atmospheric tone that reveals the truth',
-    language: 'ko',
-    aspectRatio: '16:9',
-    resolutionScale: 4,
+    ...DEFAULT_PROJECT_SETTINGS,
+    musicUpload: null,
     slides: [],
     narrations: [],
+    tracks: [],
     step: 'idle',
     isExporting: false,
     progress: 0,
     error: null,
   });
 
+  const [voices, setVoices] = useState<VoiceOption[]>([]);
+  const [translationVoices, setTranslationVoices] = useState<Partial<Record<AppLanguage, VoiceOption[]>>>({});
+  const [previewLanguage, setPreviewLanguage] = useState<AppLanguage>('ko');
+  const [musicBuffer, setMusicBuffer] = useState<AudioBuffer | null>(null);
+  const bundledLoopsRef = useRef<Map<string, AudioBuffer>>(new Map());
+  const [isExportingAudio, setIsExportingAudio] = useState(false);
+  const [playerFocus, setPlayerFocus] = useState<{ slideIndex: number; requestedAt: number } | undefined>(undefined);
+  const [pendingRestore, setPendingRestore] = useState<ProjectSnapshot | null>(null);
+  const projectInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!apiKey && renderServer.mode === 'local') setShowKeyModal(true);
+  }, [apiKey, renderServer.mode]);
+
+  useEffect(() => {
+    loadAutosave()
+      .then(snapshot => { if (snapshot && snapshot.slides.length > 0) setPendingRestore(snapshot); })
+      .catch(err => console.error("자동 저장 불러오기 실패:", err));
+  }, []);
+
+  // Autosave the open project so a crashed tab does not lose already-paid-for audio
+  const settingsKey = JSON.stringify(pickProjectSettings(state));
+  useEffect(() => {
+    if (state.slides.length === 0 || pendingRestore) return;
+    const timer = setTimeout(() => {
+      saveAutosave(createSnapshot(state)).catch(err => console.error("자동 저장 실패:", err));
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [state.slides, state.narrations, state.tracks, state.musicUpload, settingsKey, pendingRestore]);
+
+  // Resolve the selected music source to a playable buffer; bundled loops are synthesized once
   useEffect(() => {
-    if (!apiKey) setShowKeyModal(true);
-  }, [apiKey]);
+    const source = state.music.source;
+    if (source === 'none') { setMusicBuffer(null); return; }
+    if (source === 'upload') { setMusicBuffer(state.musicUpload?.buffer || null); return; }
+
+    const cached = bundledLoopsRef.current.get(source);
+    if (cached) { setMusicBuffer(cached); return; }
+    let cancelled = false;
+    generateBundledLoop(source).then(buffer => {
+      bundledLoopsRef.current.set(source, buffer);
+      if (!cancelled) setMusicBuffer(buffer);
+    }).catch(err => console.error("배경 음악 생성 실패:", err));
+    return () => { cancelled = true; };
+  }, [state.music.source, state.musicUpload]);
+
+  // Memoized so the player only reschedules the bed when the music actually changes
+  const musicBed = useMemo<MusicBed | null>(() => (
+    musicBuffer && state.music.source !== 'none' ? { settings: state.music, buffer: musicBuffer } : null
+  ), [musicBuffer, state.music]);
 
   const handleSaveKey = () => {
-    if (tempKey.trim()) {
-      setApiKey(tempKey.trim());
-      setShowKeyModal(false);
-    }
+    if (tempKey.trim()) setApiKey(tempKey.trim());
+    if (tempKey.trim() || apiKey || renderServer.mode === 'server') setShowKeyModal(false);
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
+  const getScriptProvider = () => createScriptProvider(state.scriptProvider, { geminiKey: apiKey, endpointKey });
+  const getSpeechProvider = () => createSpeechProvider(state.speechProvider, { geminiKey: apiKey, endpointKey });
+
+  const needsGeminiKey = getScriptProviderInfo(state.scriptProvider.id).needsGeminiKey
+    || getSpeechProviderInfo(state.speechProvider.id).needsGeminiKey;
+
+  // Ask the selected engine which voices it offers for the narration language
+  useEffect(() => {
+    let cancelled = false;
+    getSpeechProvider().listVoices(state.language)
+      .then(list => { if (!cancelled) setVoices(list); })
+      .catch(err => { console.error(err); if (!cancelled) setVoices([]); });
+    return () => { cancelled = true; };
+  }, [state.speechProvider.id, state.speechProvider.endpoint, state.language, apiKey, endpointKey]);
+
+  const translationLanguagesKey = state.translations.map(t => t.language).join(',');
+  useEffect(() => {
+    let cancelled = false;
+    const speech = getSpeechProvider();
+    Promise.all(state.translations.map(async t => [t.language, await speech.listVoices(t.language).catch(() => [])] as const))
+      .then(entries => { if (!cancelled) setTranslationVoices(Object.fromEntries(entries)); });
+    return () => { cancelled = true; };
+  }, [state.speechProvider.id, state.speechProvider.endpoint, translationLanguagesKey, apiKey, endpointKey]);
+
+  // The player, editor and single-language exports work on the previewed track
+  const activeLanguage = state.tracks.some(t => t.language === previewLanguage) ? previewLanguage : state.language;
+  const activeNarrations = activeLanguage === state.language
+    ? state.narrations
+    : state.tracks.find(t => t.language === activeLanguage)!.narrations;
+
+  const getVoiceSetting = (language: AppLanguage) => getPipelineVoiceSetting(state, language);
+
+  const allTracks = (): ExportNarrationTrack[] => [
+    { language: state.language, narrations: state.narrations },
+    ...state.tracks,
+  ];
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
   };
 
+  // Parsing needs no API key, so it always runs in the browser; the organizer comes next
   const handleStartGeneration = async () => {
-    if (!apiKey) { setShowKeyModal(true); return; }
     if (state.files.length === 0) return;
+    // Coming back from the organizer keeps the arranged slides until the files change
+    if (state.slides.length > 0) { setState(prev => ({ ...prev, step: 'organizing', error: null })); return; }
 
     try {
-      setState(prev => ({ ...prev, step: 'parsing', progress: 10, error: null }));
-      
-      let allSlides: SlideData[] = [];
-      let slideCounter = 0;
-
-      for (const file of state.files) {
-        if (file.type === 'application/pdf') {
-          const pdfSlides = await processPdf(file);
-          allSlides = [...allSlides, ...pdfSlides.map(s => ({ ...s, index: slideCounter++ }))];
-        } else if (file.type.startsWith('image/')) {
-          const base64 = await fileToBase64(file);
-          allSlides.push({ index: slideCounter++, image: base64, text: `Image: ${file.name}` });
-        }
-      }
+      setState(prev => ({ ...prev, error: null, step: 'parsing', progress: 0, slides: [], narrations: [], tracks: [] }));
+      const slides = await parseDeck(state.files, fraction => setState(prev => ({ ...prev, progress: Math.floor(fraction * 100) })));
+      setState(prev => ({ ...prev, slides, step: 'organizing', progress: 0 }));
+    } catch (err: any) {
+      console.error(err);
+      setState(prev => ({ ...prev, step: 'idle', error: err.message || "슬라이드를 읽는 중 오류가 발생했습니다." }));
+    }
+  };
 
-      if (allSlides.length === 0) throw new Error("유효한 슬라이드를 찾을 수 없습니다.");
+  // Reads slides from their images in the organizer, where the result can be corrected before scripting
+  const handleAnalyzeSlides = async (slides: SlideData[], targets: SlideData[], onProgress: (fraction: number) => void) => {
+    if (!apiKey && getScriptProviderInfo(state.scriptProvider.id).needsGeminiKey) {
+      setShowKeyModal(true);
+      throw new Error("API 키가 필요합니다.");
+    }
+    return analyzeDeckSlides(getScriptProvider(), slides, targets, onProgress);
+  };
 
-      setState(prev => ({ ...prev, slides: allSlides, step: 'scripting', progress: 30 }));
+  const handleGenerateNarration = async () => {
+    if (renderServer.mode === 'server') return handleServerGeneration();
+    if (!apiKey && needsGeminiKey) { setShowKeyModal(true); return; }
+    if (state.slides.length === 0) return;
 
-      const scriptItems = await generateScripts(allSlides, state.duration, state.style, state.language, apiKey);
-      const narrations: NarrationSegment[] = scriptItems.map(item => ({
-        slideIndex: item.slideIndex,
-        script: item.script,
-      }));
-      
-      setState(prev => ({ ...prev, narrations, step: 'voicing', progress: 60 }));
+    try {
+      setState(prev => ({ ...prev, error: null, narrations: [], tracks: [] }));
+      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      await generateNarration(state.slides, pickProjectSettings(state), {
+        script: getScriptProvider(),
+        speech: getSpeechProvider(),
+      }, audioCtx, {
+        onStep: (step, progress) => setState(prev => ({ ...prev, step, progress })),
+        onSlides: (slides) => setState(prev => ({ ...prev, slides })),
+        onNarrations: (narrations, progress) => setState(prev => ({ ...prev, narrations, progress })),
+        onTracks: (tracks, progress) => setState(prev => ({ ...prev, tracks, progress })),
+      });
+      setState(prev => ({ ...prev, step: 'ready', progress: 100 }));
+    } catch (err: any) {
+      console.error(err);
+      setState(prev => ({ ...prev, step: 'organizing', error: err.message || "생성 중 오류가 발생했습니다." }));
+    }
+  };
 
+  /**
+   * Narrates the arranged slides as a job on the render server, which holds the
+   * API keys, then opens the project bundle it returns so editing and export
+   * work as usual.
+   */
+  const handleServerGeneration = async () => {
+    if (state.slides.length === 0) return;
+    const isPipelineStep = (message: string): message is ProcessingStep =>
+      message === 'analyzing' || message === 'scripting' || message === 'voicing';
+
+    try {
+      setState(prev => ({ ...prev, error: null, narrations: [], tracks: [], step: 'scripting', progress: 0 }));
+      const music = state.music.source === 'upload' && state.musicUpload
+        ? await toHeadlessFile(new File([audioBufferToWav(state.musicUpload.buffer)], `${state.musicUpload.name}.wav`, { type: 'audio/wav' }))
+        : undefined;
+      const submitted = await submitRenderJob(renderServer, {
+        name: state.files[0]?.name || 'deck',
+        files: [],
+        slides: state.slides,
+        settings: pickProjectSettings(state),
+        music,
+        outputs: { project: true, video: false, audio: false, scripts: false, subtitles: [] },
+      });
+      setServerJob(submitted);
+
+      const done = await watchRenderJob(renderServer, submitted.id, status => {
+        setServerJob(status);
+        setState(prev => ({ ...prev, step: isPipelineStep(status.message) ? status.message : prev.step, progress: status.progress }));
+      });
+      const bundle = done.files.find(f => f.name.endsWith(PROJECT_FILE_EXTENSION));
+      if (!bundle) throw new Error("서버가 프로젝트 파일을 돌려주지 않았습니다.");
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const updatedNarrations = [...narrations];
-      const voice = state.language === 'ko' ? 'Kore' : 'Zephyr';
-
-      for (let i = 0; i < updatedNarrations.length; i++) {
-        const audioData = await generateAudio(updatedNarrations[i].script, apiKey, voice);
-        const buffer = await decodeAudioData(audioData, audioCtx);
-        updatedNarrations[i].audioBuffer = buffer;
-        
-        setState(prev => ({ 
-          ...prev, 
-          narrations: [...updatedNarrations],
-          progress: 60 + Math.floor(((i + 1) / updatedNarrations.length) * 35) 
-        }));
-      }
+      applySnapshot(await importProjectBundle(await downloadRenderFile(renderServer, done.id, bundle.name), audioCtx));
+    } catch (err: any) {
+      console.error(err);
+      setState(prev => ({ ...prev, step: 'organizing', error: err.message || "서버 생성 중 오류가 발생했습니다." }));
+    } finally {
+      setServerJob(null);
+    }
+  };
 
-      setState(prev => ({ ...prev, step: 'ready', progress: 100 }));
+  const handleCancelServerJob = () => {
+    if (serverJob) cancelRenderJob(renderServer, serverJob.id).catch(err => console.error(err));
+  };
+
+  const updateNarration = (slideIndex: number, patch: Partial<NarrationSegment>, language: AppLanguage = activeLanguage) => {
+    const apply = (narrations: NarrationSegment[]) =>
+      narrations.map(n => n.slideIndex === slideIndex ? { ...n, ...patch } : n);
+    setState(prev => language === prev.language
+      ? { ...prev, narrations: apply(prev.narrations) }
+      : { ...prev, tracks: prev.tracks.map(t => t.language === language ? { ...t, narrations: apply(t.narrations) } : t) });
+  };
+
+  const handleSlideEffectsChange = (slideIndex: number, effects: Partial<SlideEffects> | undefined) => {
+    // Drop cleared overrides so the slide follows the global settings again
+    const cleaned = effects && Object.fromEntries(Object.entries(effects).filter(([, v]) => v !== undefined));
+    setState(prev => ({
+      ...prev,
+      slides: prev.slides.map(s => s.index === slideIndex
+        ? { ...s, effects: cleaned && Object.keys(cleaned).length > 0 ? cleaned : undefined }
+        : s)
+    }));
+  };
+
+  const handleScriptChange = (slideIndex: number, script: string) => {
+    const current = activeNarrations.find(n => n.slideIndex === slideIndex);
+    if (!current || current.script === script) return;
+    updateNarration(slideIndex, { script, status: 'stale' });
+  };
+
+  /**
+   * Rewrites the script of a single slide, sending its neighbours (and their
+   * current narration) along so the new text still flows into them.
+   */
+  const handleRegenerateScript = async (slideIndex: number) => {
+    if (!apiKey && getScriptProviderInfo(state.scriptProvider.id).needsGeminiKey) { setShowKeyModal(true); return; }
+    if (activeLanguage !== state.language) return handleRetranslateScript(slideIndex, activeLanguage);
+    const contextSlides = state.slides.filter(s => Math.abs(s.index - slideIndex) <= 1);
+    const slideDuration = state.duration / Math.max(state.slides.length, 1);
+
+    try {
+      const [item] = await getScriptProvider().generateScripts({
+        slides: contextSlides,
+        totalDurationSec: slideDuration,
+        style: state.style,
+        language: state.language,
+        // An explicit rewrite should produce new text, so verbatim notes are polished instead
+        notesMode: state.notesMode === 'ignore' ? 'ignore' : 'polish',
+        dialogue: state.dialogue,
+        target: {
+          targetSlideIndices: [slideIndex],
+          existingScripts: state.narrations.filter(n => contextSlides.some(s => s.index === n.slideIndex)),
+        },
+      });
+      if (!item) throw new Error("스크립트를 다시 생성하지 못했습니다.");
+      updateNarration(slideIndex, { script: item.script, status: 'stale' });
     } catch (err: any) {
       console.error(err);
-      setState(prev => ({ ...prev, step: 'idle', error: err.message || "생성 중 오류가 발생했습니다." }));
+      setState(prev => ({ ...prev, error: err.message || "스크립트 재생성 중 오류가 발생했습니다." }));
     }
   };
 
-  const handleExportAudio = () => {
-    if (state.narrations.length === 0) return;
-    
+  /**
+   * On a translated track, a rewrite translates the slide's current primary
+   * script again instead of writing new narration from the slide.
+   */
+  const handleRetranslateScript = async (slideIndex: number, language: AppLanguage) => {
+    const source = state.narrations.find(n => n.slideIndex === slideIndex);
+    if (!source) return;
+
+    try {
+      const [item] = await getScriptProvider().translateScripts({
+        scripts: [{ slideIndex, script: source.script }],
+        from: state.language,
+        to: language,
+        style: state.style,
+      });
+      if (!item) throw new Error("스크립트를 다시 번역하지 못했습니다.");
+      updateNarration(slideIndex, { script: item.script, status: 'stale' }, language);
+    } catch (err: any) {
+      console.error(err);
+      setState(prev => ({ ...prev, error: err.message || "스크립트 번역 중 오류가 발생했습니다." }));
+    }
+  };
+
+  /**
+   * Re-voices one segment only; every other segment keeps its audio.
+   */
+  const handleRevoice = async (slideIndex: number, script: string) => {
+    if (!apiKey && getSpeechProviderInfo(state.speechProvider.id).needsGeminiKey) { setShowKeyModal(true); return; }
+    const language = activeLanguage;
+    updateNarration(slideIndex, { script, status: 'voicing' }, language);
+
     try {
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const validNarrations = state.narrations.filter(n => n.audioBuffer);
-      if (validNarrations.length === 0) return;
-
-      const totalLength = validNarrations.reduce((acc, n) => acc + (n.audioBuffer?.length || 0), 0);
-      const sampleRate = validNarrations[0].audioBuffer!.sampleRate;
-      const combinedBuffer = audioCtx.createBuffer(1, totalLength, sampleRate);
-      
-      let offset = 0;
-      validNarrations.forEach(n => {
-        if (n.audioBuffer) {
-          combinedBuffer.getChannelData(0).set(n.audioBuffer.getChannelData(0), offset);
-          offset += n.audioBuffer.length;
-        }
+      const speech = getSpeechProvider();
+      const voiceScript = await createNarrationVoicer(speech, audioCtx, {
+        language,
+        voice: getVoiceSetting(language),
+        dialogue: state.dialogue,
+        lexicon: state.lexicon,
       });
+      const buffer = await voiceScript(script);
+      updateNarration(slideIndex, { audioBuffer: buffer, status: 'done' }, language);
+    } catch (err: any) {
+      console.error(err);
+      updateNarration(slideIndex, { status: 'stale' }, language);
+      setState(prev => ({ ...prev, error: err.message || "음성 재생성 중 오류가 발생했습니다." }));
+    }
+  };
 
-      const wavBlob = audioBufferToWav(combinedBuffer);
-      const url = URL.createObjectURL(wavBlob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `SlideStream_Audio_${new Date().getTime()}.wav`;
-      a.click();
-      URL.revokeObjectURL(url);
+  /**
+   * Answers a viewer's question from the deck: every slide's text and the
+   * narration of the track on screen, plus images of the slides it concerns.
+   */
+  const handleAskQuestion = async (question: string, history: QuestionTurn[]): Promise<DeckAnswer> => {
+    if (!apiKey && getScriptProviderInfo(state.scriptProvider.id).needsGeminiKey) {
+      setShowKeyModal(true);
+      throw new Error("API 키가 필요합니다.");
+    }
+    return getScriptProvider().answerQuestion({
+      question,
+      slides: state.slides,
+      narrations: activeNarrations,
+      focusSlides: selectFocusSlides(question, state.slides, activeNarrations),
+      history,
+    });
+  };
+
+  // Answers are read in the narrator's voice, never as a dialogue
+  const handleSpeakAnswer = async (text: string): Promise<AudioBuffer> => {
+    if (!apiKey && getSpeechProviderInfo(state.speechProvider.id).needsGeminiKey) {
+      setShowKeyModal(true);
+      throw new Error("API 키가 필요합니다.");
+    }
+    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const voiceScript = await createNarrationVoicer(getSpeechProvider(), audioCtx, {
+      language: activeLanguage,
+      voice: getVoiceSetting(activeLanguage),
+      lexicon: state.lexicon,
+    });
+    return voiceScript(text);
+  };
+
+  const applySnapshot = (snapshot: ProjectSnapshot) => {
+    const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const restored = restoreSnapshot(snapshot, audioCtx);
+    setState(prev => ({
+      ...prev,
+      ...restored,
+      files: [],
+      step: restored.narrations.length > 0 ? 'ready' : restored.slides.length > 0 ? 'organizing' : 'idle',
+      progress: 0,
+      error: null,
+    }));
+  };
+
+  const handleRestoreAutosave = () => {
+    if (!pendingRestore) return;
+    applySnapshot(pendingRestore);
+    setPendingRestore(null);
+  };
+
+  const handleDiscardAutosave = () => {
+    setPendingRestore(null);
+    clearAutosave().catch(err => console.error(err));
+  };
+
+  const handleExportProject = async () => {
+    if (state.slides.length === 0) return;
+    try {
+      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const blob = await exportProjectBundle(createSnapshot(state), audioCtx);
+      downloadBlob(blob, `SlideStream_Project_${new Date().getTime()}${PROJECT_FILE_EXTENSION}`);
     } catch (err) {
+      console.error("프로젝트 내보내기 실패:", err);
+      setState(prev => ({ ...prev, error: "프로젝트 파일을 만드는 데 실패했습니다." }));
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const snapshot = await importProjectBundle(file, audioCtx);
+      setPendingRestore(null);
+      applySnapshot(snapshot);
+    } catch (err: any) {
+      console.error("프로젝트 불러오기 실패:", err);
+      setState(prev => ({ ...prev, error: err.message || "프로젝트 파일을 여는 데 실패했습니다." }));
+    }
+  };
+
+  const handleNewProject = () => {
+    if (!window.confirm("현재 프로젝트를 닫을까요? 필요하면 먼저 프로젝트 파일로 저장하세요.")) return;
+    clearAutosave().catch(err => console.error(err));
+    setState(prev => ({ ...prev, step: 'idle', files: [], slides: [], narrations: [], tracks: [], error: null }));
+  };
+
+  const handleExportAudio = async () => {
+    if (activeNarrations.length === 0 || isExportingAudio) return;
+    
+    setIsExportingAudio(true);
+    try {
+      const blob = await exportNarrationAudio(state.slides, activeNarrations, state.audioExport, musicBed || undefined);
+      if (!blob) return;
+
+      const { extension } = getAudioFormatInfo(state.audioExport.format);
+      downloadBlob(blob, `SlideStream_Audio_${activeLanguage}_${new Date().getTime()}.${extension}`);
+    } catch (err: any) {
       console.error("오디오 내보내기 실패:", err);
-      setState(prev => ({ ...prev, error: "오디오 파일을 생성하는 데 실패했습니다." }));
+      setState(prev => ({ ...prev, error: err.message || "오디오 파일을 생성하는 데 실패했습니다." }));
+    } finally {
+      setIsExportingAudio(false);
+    }
+  };
+
+  const handleMusicUpload = async (file: File) => {
+    try {
+      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+      const buffer = await audioCtx.decodeAudioData(await file.arrayBuffer());
+      setState(prev => ({
+        ...prev,
+        musicUpload: { name: file.name, buffer },
+        music: { ...prev.music, source: 'upload' },
+      }));
+    } catch (err) {
+      console.error("음악 파일 불러오기 실패:", err);
+      setState(prev => ({ ...prev, error: "음악 파일을 읽을 수 없습니다. MP3, WAV, OGG 파일을 사용하세요." }));
     }
   };
 
+  const handleExportSubtitles = (format: 'srt' | 'vtt') => {
+    const text = buildSubtitleFile(state.slides, activeNarrations, format, state.dialogue);
+    if (!text) return;
+    const mime = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([text], { type: `${mime};charset=utf-8` }), `SlideStream_Subtitles_${activeLanguage}_${new Date().getTime()}.${format}`);
+  };
+
+  const handleExportChapters = (format: ChapterFormat) => {
+    const text = buildChapterFile(state.slides, activeNarrations, format, activeLanguage);
+    if (!text) {
+      if (format === 'youtube') {
+        setState(prev => ({ ...prev, error: "YouTube 챕터는 10초 이상인 챕터가 3개 이상 필요합니다. 슬라이드가 너무 적거나 짧습니다." }));
+      }
+      return;
+    }
+    const file = format === 'vtt' ? { mime: 'text/vtt', name: 'Chapters', ext: 'vtt' }
+      : format === 'youtube' ? { mime: 'text/plain', name: 'YouTube_Chapters', ext: 'txt' }
+      : { mime: 'application/json', name: 'Timeline', ext: 'json' };
+    downloadBlob(new Blob([text], { type: `${file.mime};charset=utf-8` }), `SlideStream_${file.name}_${activeLanguage}_${new Date().getTime()}.${file.ext}`);
+  };
+
+  const handleExportTranscript = () => {
+    const text = buildTranscript(activeNarrations, state.dialogue);
+    if (!text) return;
+    downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), `SlideStream_Transcript_${activeLanguage}_${new Date().getTime()}.txt`);
+  };
+
   /**
-   * Concatenates slides and their corresponding narration audio segments 
-   * sequentially into a single video file using MediaRecorder and Canvas.
+   * Renders the slides and their narration frame by frame with WebCodecs and
+   * downloads the muxed MP4/WebM. 'single' exports the previewed language,
+   * 'each' one file per language and 'multitrack' one file carrying every
+   * language as its own audio and subtitle track. Progress follows the encoded
+   * frame count across all files.
    */
-  const handleExportBrowser = async () => {
+  const handleExportVideo = async (mode: 'single' | 'each' | 'multitrack' = 'single') => {
     if (state.slides.length === 0 || state.narrations.length === 0) return;
-    setState(prev => ({ ...prev, isExporting: true, progress: 0 }));
+    setState(prev => ({ ...prev, isExporting: true, progress: 0, error: null }));
+
+    const tracks = allTracks();
+    const jobs: { tracks: ExportNarrationTrack[]; label: string }[] =
+      mode === 'each' ? tracks.map(t => ({ tracks: [t], label: t.language }))
+      : mode === 'multitrack' ? [{ tracks, label: tracks.map(t => t.language).join('-') }]
+      : [{ tracks: tracks.filter(t => t.language === activeLanguage), label: activeLanguage }];
 
     try {
-      // 1. Setup Audio Context and Destination for recording
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      if (audioCtx.state === 'suspended') await audioCtx.resume();
-      const dest = audioCtx.createMediaStreamDestination();
-      
-      // 2. Setup Canvas for visual capture
-      const canvas = document.createElement('canvas');
-      let baseWidth = 1280, baseHeight = 720;
-      switch (state.aspectRatio) {
-        case '9:16': baseWidth = 720; baseHeight = 1280; break;
-        case '1:1': baseWidth = 1080; baseHeight = 1080; break;
-        case '4:3': baseWidth = 1024; baseHeight = 768; break;
-        default: baseWidth = 1280; baseHeight = 720; break;
+      for (let j = 0; j < jobs.length; j++) {
+        let lastPercent = -1;
+        const blob = await exportVideo(state.slides, jobs[j].tracks, {
+          container: state.videoContainer,
+          aspectRatio: state.aspectRatio,
+          resolutionScale: state.resolutionScale,
+          captionStyle: state.captionStyle,
+          effects: state.effects,
+          music: musicBed || undefined,
+          dialogue: state.dialogue,
+          onProgress: (frame, totalFrames) => {
+            const percent = Math.floor(((j + frame / totalFrames) / jobs.length) * 100);
+            if (percent !== lastPercent) {
+              lastPercent = percent;
+              setState(prev => ({ ...prev, progress: percent }));
+            }
+          },
+        });
+
+        downloadBlob(blob, `SlideStream_${jobs[j].label}_${state.aspectRatio.replace(':','x')}_${state.resolutionScale}x_${new Date().getTime()}.${state.videoContainer}`);
       }
-      canvas.width = baseWidth * state.resolutionScale;
-      canvas.height = baseHeight * state.resolutionScale;
-      
-      const ctx = canvas.getContext('2d');
-      if (!ctx) throw new Error("Canvas context failed");
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-
-      // 3. Setup Stream and MediaRecorder
-      const videoStream = canvas.captureStream(30); // 30 FPS
-      const combinedStream = new MediaStream([
-        ...videoStream.getVideoTracks(),
-        ...dest.stream.getAudioTracks()
-      ]);
-
-      const targetBitrate = 12000000 * state.resolutionScale * state.resolutionScale;
-      const videoBitsPerSecond = Math.min(targetBitrate, 100000000);
-
-      const recorder = new MediaRecorder(combinedStream, { 
-        mimeType: 'video/webm;codecs=vp9,opus',
-        videoBitsPerSecond: videoBitsPerSecond
-      });
-      
-      const chunks: Blob[] = [];
-      recorder.ondataavailable = (e) => chunks.push(e.data);
-      
-      recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: 'video/webm' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `SlideStream_Concatenated_${state.aspectRatio.replace(':','x')}_${state.resolutionScale}x_${new Date().getTime()}.webm`;
-        a.click();
-        setState(prev => ({ ...prev, isExporting: false }));
-      };
-
-      // 4. Start recording
-      recorder.start();
-
-      // 5. Sequential loop through all slides (Concatenation Logic)
-      // We sort slides by index just in case they are out of order
-      const sortedSlides = [...state.slides].sort((a, b) => a.index - b.index);
-
-      for (let i = 0; i < sortedSlides.length; i++) {
-        const slide = sortedSlides[i];
-        const narration = state.narrations.find(n => n.slideIndex === slide.index);
-
-        setState(prev => ({ ...prev, progress: Math.floor((i / sortedSlides.length) * 100) }));
-
-        // Draw slide image
-        const img = new Image();
-        img.src = slide.image;
-        await new Promise((res) => { img.onload = res; });
-        
-        ctx.fillStyle = '#0f172a'; // Clear background
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
-        
-        const scale = Math.min(canvas.width / img.width, canvas.height / img.height);
-        const x = (canvas.width / 2) - (img.width / 2) * scale;
-        const y = (canvas.height / 2) - (img.height / 2) * scale;
-        ctx.drawImage(img, x, y, img.width * scale, img.height * scale);
-
-        // Synchronize with narration audio
-        if (narration?.audioBuffer) {
-          const source = audioCtx.createBufferSource();
-          source.buffer = narration.audioBuffer;
-          source.connect(dest);
-          // Optional: connect to speakers so user can hear while recording
-          // source.connect(audioCtx.destination); 
-          
-          const audioPlayPromise = new Promise((res) => { source.onended = res; });
-          source.start();
-          await audioPlayPromise; // Wait for this clip to finish before next slide
-        } else {
-          // If no audio for a slide, show it for a default duration (e.g., 3 seconds)
-          await new Promise(resolve => setTimeout(resolve, 3000));
-        }
-      }
-
-      // 6. Stop recording after all clips are processed
-      recorder.stop();
-      
+      setState(prev => ({ ...prev, isExporting: false }));
     } catch (err: any) {
       console.error(err);
       setState(prev => ({ 
         ...prev, 
-        error: "동영상 녹화 중 오류가 발생했습니다. 브라우저 탭이 백그라운드에 있으면 중단될 수 있습니다.", 
+        error: err.message || "동영상 인코딩 중 오류가 발생했습니다.", 
         isExporting: false 
       }));
     }
@@ -261,10 +558,29 @@ const App: React.FC = () => {
           </div>
           <div className="flex items-center gap-4">
             <button onClick={() => setShowKeyModal(true)} className="text-slate-500 hover:text-blue-600 flex items-center gap-1 text-sm font-medium">
-              <Key size={14} /> API 키 설정
+              <Key size={14} /> {renderServer.mode === 'server' ? '서버 설정' : 'API 키 설정'}
+            </button>
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept={`${PROJECT_FILE_EXTENSION},.zip`}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportProject(file);
+                e.target.value = '';
+              }}
+            />
+            <button onClick={() => projectInputRef.current?.click()} className="text-slate-500 hover:text-blue-600 flex items-center gap-1 text-sm font-medium">
+              <FolderOpen size={14} /> 프로젝트 열기
             </button>
-            {state.step === 'ready' && (
-              <button onClick={() => setState(prev => ({ ...prev, step: 'idle', files: [], error: null }))} className="text-sm font-medium text-slate-500 hover:text-slate-900">
+            {state.slides.length > 0 && (
+              <button onClick={handleExportProject} className="text-slate-500 hover:text-blue-600 flex items-center gap-1 text-sm font-medium">
+                <Save size={14} /> 프로젝트 저장
+              </button>
+            )}
+            {(state.step === 'ready' || state.step === 'organizing') && (
+              <button onClick={handleNewProject} className="text-sm font-medium text-slate-500 hover:text-slate-900">
                 새로 만들기
               </button>
             )}
@@ -273,6 +589,21 @@ const App: React.FC = () => {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8">
+        {pendingRestore && (
+          <div className="mb-6 max-w-4xl mx-auto p-4 bg-blue-50 border border-blue-100 rounded-2xl flex items-center justify-between gap-4 text-blue-800 flex-wrap">
+            <div className="flex items-center gap-3 text-sm">
+              <History className="text-blue-600 shrink-0" size={20} />
+              <span>
+                저장되지 않은 프로젝트가 있습니다 ({pendingRestore.slides.length}개 슬라이드, {new Date(pendingRestore.savedAt).toLocaleString()}). 복구할까요?
+              </span>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleDiscardAutosave} className="px-3 py-1.5 text-sm font-medium text-slate-500 hover:text-slate-900">무시</button>
+              <button onClick={handleRestoreAutosave} className="px-4 py-1.5 text-sm font-bold bg-blue-600 text-white rounded-lg hover:bg-blue-700">복구</button>
+            </div>
+          </div>
+        )}
+
         {state.error && (
           <div className="mb-6 max-w-4xl mx-auto p-6 bg-red-50 border border-red-100 rounded-3xl flex flex-col gap-4 text-red-700 shadow-sm">
             <div className="flex items-start gap-4">
@@ -293,36 +624,170 @@ const App: React.FC = () => {
                     <h2 className="text-2xl font-bold">프레젠테이션 미리보기</h2>
                     <p className="text-slate-500 text-sm">슬라이드와 AI 음성을 확인하고 내보내세요.</p>
                   </div>
-                  <div className="flex gap-2">
+                  <div className="flex gap-2 flex-wrap">
                     <button 
                       onClick={handleExportAudio}
+                      disabled={isExportingAudio}
+                      className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+                    >
+                      {isExportingAudio ? <Loader2 size={18} className="animate-spin" /> : <Music size={18} />}
+                      오디오 저장 (.{getAudioFormatInfo(state.audioExport.format).extension})
+                    </button>
+                    <button 
+                      onClick={() => handleExportSubtitles('srt')}
+                      className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+                    >
+                      <Subtitles size={18} />
+                      자막 (.srt)
+                    </button>
+                    <button 
+                      onClick={() => handleExportSubtitles('vtt')}
+                      className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+                    >
+                      <Subtitles size={18} />
+                      자막 (.vtt)
+                    </button>
+                    <button 
+                      onClick={handleExportTranscript}
+                      className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+                    >
+                      <FileText size={18} />
+                      대본 (.txt)
+                    </button>
+                    <button 
+                      onClick={() => handleExportChapters('vtt')}
+                      className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+                    >
+                      <ListVideo size={18} />
+                      챕터 (.vtt)
+                    </button>
+                    <button 
+                      onClick={() => handleExportChapters('youtube')}
                       className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
                     >
-                      <Music size={18} />
-                      오디오 저장 (.wav)
+                      <ListVideo size={18} />
+                      YouTube 챕터
                     </button>
                     <button 
-                      onClick={handleExportBrowser}
+                      onClick={() => handleExportChapters('json')}
+                      className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+                    >
+                      <FileBraces size={18} />
+                      타임라인 (.json)
+                    </button>
+                    <select
+                      value={state.videoContainer}
+                      onChange={(e) => setState(prev => ({ ...prev, videoContainer: e.target.value as VideoContainer }))}
+                      disabled={state.isExporting}
+                      className="px-3 py-2.5 bg-slate-100 border border-slate-200 rounded-xl font-bold text-slate-700 outline-none"
+                    >
+                      <option value="mp4">MP4</option>
+                      <option value="webm">WebM</option>
+                    </select>
+                    <button 
+                      onClick={() => handleExportVideo('single')}
                       disabled={state.isExporting}
                       className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white px-6 py-2.5 rounded-xl font-bold transition-all shadow-lg shadow-blue-500/20"
                     >
                       {state.isExporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
-                      {state.isExporting ? `동영상 생성 중 (${state.progress}%)` : "동영상 저장 (.webm)"}
+                      {state.isExporting ? `동영상 생성 중 (${state.progress}%)` : `동영상 저장 (.${state.videoContainer})`}
                     </button>
                   </div>
                 </div>
-                <PresentationPlayer slides={state.slides} narrations={state.narrations} />
+                <div className="mb-6 space-y-3">
+                  {state.tracks.length > 0 && (
+                    <LanguageTracks 
+                      primary={state.language}
+                      tracks={allTracks()}
+                      active={activeLanguage}
+                      exporting={state.isExporting}
+                      container={state.videoContainer}
+                      onSelect={setPreviewLanguage}
+                      onExportEach={() => handleExportVideo('each')}
+                      onExportMultiTrack={() => handleExportVideo('multitrack')}
+                    />
+                  )}
+                  <DurationReport 
+                    slides={state.slides}
+                    narrations={activeNarrations}
+                    targetSeconds={state.duration}
+                    tolerance={state.durationFit.tolerance}
+                  />
+                  <PronunciationSettings 
+                    lexicon={state.lexicon}
+                    onChange={(lexicon) => setState(prev => ({ ...prev, lexicon }))}
+                  />
+                  <EffectsSettings 
+                    effects={state.effects} 
+                    onChange={(effects) => setState(prev => ({ ...prev, effects }))} 
+                  />
+                  <MusicSettings 
+                    settings={state.music}
+                    uploadName={state.musicUpload?.name || null}
+                    onChange={(music) => setState(prev => ({ ...prev, music }))}
+                    onUpload={handleMusicUpload}
+                  />
+                  <CaptionSettings 
+                    style={state.captionStyle} 
+                    onChange={(captionStyle) => setState(prev => ({ ...prev, captionStyle }))} 
+                  />
+                  <AudioExportSettings
+                    settings={state.audioExport}
+                    onChange={(audioExport) => setState(prev => ({ ...prev, audioExport }))}
+                  />
+                </div>
+                <PresentationPlayer 
+                  slides={state.slides} 
+                  narrations={activeNarrations}
+                  aspectRatio={state.aspectRatio}
+                  effects={state.effects}
+                  dialogue={state.dialogue}
+                  music={musicBed}
+                  focusRequest={playerFocus}
+                  onSlideEffectsChange={handleSlideEffectsChange}
+                  onScriptChange={handleScriptChange}
+                  onRegenerateScript={handleRegenerateScript}
+                  onRevoice={handleRevoice}
+                />
+                <QAPanel
+                  onAsk={handleAskQuestion}
+                  onSpeak={handleSpeakAnswer}
+                  onJumpToSlide={(slideIndex) => setPlayerFocus({ slideIndex, requestedAt: Date.now() })}
+                />
              </div>
           </div>
+        ) : state.step === 'organizing' ? (
+          <SlideOrganizer
+            slides={state.slides}
+            aspectRatio={state.aspectRatio}
+            onChange={(slides) => setState(prev => ({ ...prev, slides }))}
+            onParseFiles={(files) => parseDeck(files)}
+            onAnalyze={handleAnalyzeSlides}
+            onBack={() => setState(prev => ({ ...prev, step: 'idle', error: null }))}
+            onGenerate={handleGenerateNarration}
+          />
         ) : (
           <Dashboard 
             state={state} 
-            onFilesChange={(files) => setState(prev => ({ ...prev, files: Array.from(files), error: null }))}
+            onFilesChange={(files) => setState(prev => ({ ...prev, files: Array.from(files), slides: [], error: null }))}
             onDurationChange={(duration) => setState(prev => ({ ...prev, duration }))}
             onStyleChange={(style) => setState(prev => ({ ...prev, style }))}
-            onLanguageChange={(language) => setState(prev => ({ ...prev, language }))}
+            onLanguageChange={(language) => setState(prev => ({
+              ...prev,
+              language,
+              translations: prev.translations.filter(t => t.language !== language),
+            }))}
+            onTranslationsChange={(translations) => setState(prev => ({ ...prev, translations }))}
+            translationVoices={translationVoices}
+            onNotesModeChange={(notesMode) => setState(prev => ({ ...prev, notesMode }))}
+            onDialogueChange={(dialogue) => setState(prev => ({ ...prev, dialogue }))}
+            onLexiconChange={(lexicon) => setState(prev => ({ ...prev, lexicon }))}
+            onDurationFitChange={(durationFit) => setState(prev => ({ ...prev, durationFit }))}
             onAspectRatioChange={(aspectRatio) => setState(prev => ({ ...prev, aspectRatio }))}
             onResolutionScaleChange={(scale) => setState(prev => ({ ...prev, resolutionScale: scale }))}
+            onScriptProviderChange={(scriptProvider) => setState(prev => ({ ...prev, scriptProvider }))}
+            voices={voices}
+            onSpeechProviderChange={(speechProvider) => setState(prev => ({ ...prev, speechProvider }))}
             onGenerate={handleStartGeneration}
           />
         )}
@@ -335,6 +800,39 @@ const App: React.FC = () => {
               <h3 className="text-lg font-bold flex items-center gap-2"><Key className="text-blue-600" size={20} /> Gemini API 키 입력</h3>
               <button onClick={() => setShowKeyModal(false)} className="text-slate-400 hover:text-slate-600"><X size={20} /></button>
             </div>
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              {([['local', '브라우저에서 생성'], ['server', '렌더 서버에서 생성']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setRenderServer(prev => ({ ...prev, mode }))}
+                  className={`py-2 rounded-lg text-sm font-bold border transition-colors ${renderServer.mode === mode ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-slate-200 text-slate-500 hover:border-slate-300'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {renderServer.mode === 'server' && (
+              <>
+                <p className="text-sm text-slate-500 mb-2">서버 주소</p>
+                <input
+                  type="url"
+                  placeholder="http://localhost:8787"
+                  value={renderServer.url}
+                  onChange={(e) => setRenderServer(prev => ({ ...prev, url: e.target.value }))}
+                  className="w-full px-4 py-3 border border-slate-200 rounded-lg mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <p className="text-sm text-slate-500 mb-2">접근 토큰 (서버에 설정된 경우)</p>
+                <input
+                  type="password"
+                  value={renderServer.token}
+                  onChange={(e) => setRenderServer(prev => ({ ...prev, token: e.target.value }))}
+                  className="w-full px-4 py-3 border border-slate-200 rounded-lg mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+                <p className="text-xs text-slate-400 mb-4">
+                  생성은 서버에 보관된 API 키로 실행됩니다. 아래 키는 슬라이드별 대본·음성 재생성에만 쓰이며 비워 둘 수 있습니다.
+                </p>
+              </>
+            )}
             <p className="text-sm text-slate-500 mb-4">Gemini 2.5 및 3 모델을 사용하기 위한 API 키가 필요합니다.</p>
             <input 
               type="password"
@@ -343,12 +841,20 @@ const App: React.FC = () => {
               onChange={(e) => setTempKey(e.target.value)}
               className="w-full px-4 py-3 border border-slate-200 rounded-lg mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
             />
+            <p className="text-sm text-slate-500 mb-2">OpenAI 호환 엔드포인트용 키 (선택)</p>
+            <input 
+              type="password"
+              placeholder="로컬 서버라면 비워 두세요"
+              value={endpointKey}
+              onChange={(e) => setEndpointKey(e.target.value)}
+              className="w-full px-4 py-3 border border-slate-200 rounded-lg mb-4 focus:ring-2 focus:ring-blue-500 outline-none"
+            />
             <button onClick={handleSaveKey} className="w-full py-3 bg-blue-600 text-white font-bold rounded-xl hover:bg-blue-700 transition-colors">저장 및 계속하기</button>
           </div>
         </div>
       )}
 
-      {(state.step !== 'idle' && state.step !== 'ready' || state.isExporting) && (
+      {(state.step !== 'idle' && state.step !== 'ready' && state.step !== 'organizing' || state.isExporting) && (
         <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-50 flex items-center justify-center p-4">
           <div className="bg-white rounded-3xl p-8 max-w-md w-full shadow-2xl flex flex-col items-center text-center">
             <div className="relative mb-6">
@@ -360,12 +866,19 @@ const App: React.FC = () => {
             <h3 className="text-xl font-bold mb-2">{state.isExporting ? "동영상 인코딩 중" : "프레젠테이션 제작 중"}</h3>
             <p className="text-slate-500 text-sm leading-relaxed">
               {state.isExporting 
-                ? "브라우저에서 직접 슬라이드를 녹화하여 이어 붙이고 있습니다. 탭을 끄지 마세요." 
-                : "AI가 슬라이드를 분석하고 음성을 생성하고 있습니다."}
+                ? "브라우저에서 프레임 단위로 동영상을 인코딩하고 있습니다. 탭을 닫지 마세요." 
+                : serverJob?.state === 'queued'
+                  ? `렌더 서버 대기열 ${serverJob.position}번째입니다.`
+                  : "AI가 슬라이드를 분석하고 음성을 생성하고 있습니다."}
             </p>
             <div className="w-full bg-slate-100 h-2 rounded-full overflow-hidden mt-6">
               <div className="h-full bg-blue-600 transition-all duration-500" style={{ width: `${state.progress}%` }} />
             </div>
+            {serverJob && (
+              <button onClick={handleCancelServerJob} className="mt-4 text-sm font-medium text-slate-500 hover:text-red-600">
+                서버 작업 취소
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,120 @@
+import { randomUUID } from 'node:crypto';
+import type { RenderJobRequest, RenderJobStatus } from '../services/renderServer.js';
+
+/**
+ * In-memory FIFO of render jobs. Runs up to `concurrency` at once, tells
+ * subscribers about every status change and forgets finished jobs after
+ * `retentionMs`.
+ */
+
+export interface RenderJob {
+  id: string;
+  request: RenderJobRequest;
+  status: RenderJobStatus;
+  controller: AbortController;
+}
+
+export type JobUpdate = (patch: Partial<Omit<RenderJobStatus, 'id' | 'createdAt'>>) => void;
+
+export interface JobQueueOptions {
+  concurrency: number;
+  retentionMs: number;
+  run: (job: RenderJob, update: JobUpdate) => Promise<void>;
+  onExpire?: (job: RenderJob) => void;
+}
+
+export interface JobQueue {
+  submit: (request: RenderJobRequest) => RenderJob;
+  get: (id: string) => RenderJob | undefined;
+  cancel: (id: string) => boolean;
+  subscribe: (id: string, listener: (status: RenderJobStatus) => void) => () => void;
+}
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  const jobs = new Map<string, RenderJob>();
+  const waiting: RenderJob[] = [];
+  const listeners = new Map<string, Set<(status: RenderJobStatus) => void>>();
+  let running = 0;
+
+  const notify = (job: RenderJob) => {
+    listeners.get(job.id)?.forEach(listener => listener(job.status));
+  };
+
+  const update = (job: RenderJob, patch: Parameters<JobUpdate>[0]) => {
+    job.status = { ...job.status, ...patch };
+    notify(job);
+  };
+
+  const updatePositions = () => {
+    waiting.forEach((job, i) => {
+      if (job.status.position !== i + 1) update(job, { position: i + 1 });
+    });
+  };
+
+  const expire = (job: RenderJob) => {
+    setTimeout(() => {
+      jobs.delete(job.id);
+      listeners.delete(job.id);
+      options.onExpire?.(job);
+    }, options.retentionMs).unref();
+  };
+
+  const pump = () => {
+    while (running < options.concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      update(job, { state: 'running', position: 0, message: 'starting', progress: 0 });
+      options.run(job, patch => update(job, patch))
+        .then(() => update(job, { state: 'done', message: 'done', progress: 100 }))
+        .catch(err => {
+          if (job.controller.signal.aborted) update(job, { state: 'cancelled' });
+          else update(job, { state: 'failed', error: err instanceof Error ? err.message : String(err) });
+        })
+        .finally(() => {
+          running--;
+          expire(job);
+          pump();
+        });
+    }
+    updatePositions();
+  };
+
+  return {
+    submit: (request) => {
+      const job: RenderJob = {
+        id: randomUUID(),
+        request,
+        status: { id: '', state: 'queued', position: 0, message: 'queued', progress: 0, files: [], createdAt: Date.now() },
+        controller: new AbortController(),
+      };
+      job.status.id = job.id;
+      jobs.set(job.id, job);
+      waiting.push(job);
+      pump();
+      return job;
+    },
+
+    get: (id) => jobs.get(id),
+
+    cancel: (id) => {
+      const job = jobs.get(id);
+      if (!job || job.status.state === 'done' || job.status.state === 'failed' || job.status.state === 'cancelled') return false;
+      const index = waiting.indexOf(job);
+      if (index >= 0) {
+        waiting.splice(index, 1);
+        update(job, { state: 'cancelled', position: 0 });
+        expire(job);
+        updatePositions();
+      }
+      // A running job ends up 'cancelled' once its run rejects
+      job.controller.abort();
+      return true;
+    },
+
+    subscribe: (id, listener) => {
+      if (!listeners.has(id)) listeners.set(id, new Set());
+      listeners.get(id)!.add(listener);
+      return () => { listeners.get(id)?.delete(listener); };
+    },
+  };
+};
@@ -0,0 +1,256 @@
+#!/usr/bin/env node
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createReadStream } from 'node:fs';
+import { appendFile, mkdir, rm, stat, writeFile } from 'node:fs/promises';
+import { pipeline } from 'node:stream/promises';
+import os from 'node:os';
+import path from 'node:path';
+import type { ProjectSettings } from '../types';
+import type { RenderJobRequest, RenderJobStatus } from '../services/renderServer.js';
+import { assertHeadlessBuild, mimeFor, runHeadlessJob } from '../headless/runner.js';
+import { createJobQueue, RenderJob } from './jobQueue.js';
+
+/**
+ * Render server: accepts decks over HTTP, runs the generation pipeline in
+ * headless Chrome as queued jobs and serves the resulting files. The provider
+ * keys live only in this process's environment.
+ *
+ *   POST   /api/jobs                  submit a job (JSON, files as base64)
+ *   GET    /api/jobs/:id              job status
+ *   GET    /api/jobs/:id/events       status as server-sent events
+ *   GET    /api/jobs/:id/files/:name  download an output file
+ *   DELETE /api/jobs/:id              cancel a queued or running job
+ */
+
+const config = {
+  port: Number(process.env.PORT) || 8787,
+  host: process.env.HOST || '127.0.0.1',
+  geminiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+  endpointKey: process.env.SLIDESTREAM_ENDPOINT_KEY || '',
+  // Clients cannot pick endpoints, so the endpoint key only ever goes to these
+  scriptEndpoint: process.env.SLIDESTREAM_SCRIPT_ENDPOINT || '',
+  speechEndpoint: process.env.SLIDESTREAM_SPEECH_ENDPOINT || '',
+  // Required whenever the server holds a provider key
+  accessToken: process.env.SLIDESTREAM_ACCESS_TOKEN || '',
+  // Comma separated; defaults to the Vite dev server the app runs on
+  allowedOrigins: (process.env.SLIDESTREAM_ALLOWED_ORIGIN || 'http://localhost:5173').split(',').map(o => o.trim()).filter(Boolean),
+  chromePath: process.env.CHROME_PATH || process.env.PUPPETEER_EXECUTABLE_PATH || '',
+  dataDir: process.env.SLIDESTREAM_DATA_DIR || path.join(os.tmpdir(), 'slidestream-jobs'),
+  concurrency: Math.max(1, Number(process.env.SLIDESTREAM_CONCURRENCY) || 1),
+  retentionMs: (Number(process.env.SLIDESTREAM_RETENTION_MINUTES) || 60) * 60 * 1000,
+  maxUploadBytes: (Number(process.env.SLIDESTREAM_MAX_UPLOAD_MB) || 200) * 1024 * 1024,
+};
+
+const SSE_HEARTBEAT_MS = 25000;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const jobDir = (id: string) => path.join(config.dataDir, id);
+
+const withServerEndpoints = (settings: Partial<ProjectSettings>): Partial<ProjectSettings> => ({
+  ...settings,
+  ...(settings.scriptProvider && { scriptProvider: { ...settings.scriptProvider, endpoint: config.scriptEndpoint } }),
+  ...(settings.speechProvider && { speechProvider: { ...settings.speechProvider, endpoint: config.speechEndpoint } }),
+});
+
+const runJob = async (job: RenderJob, update: (patch: Partial<RenderJobStatus>) => void) => {
+  const dir = jobDir(job.id);
+  await mkdir(dir, { recursive: true });
+  const files = new Map<string, number>();
+
+  await runHeadlessJob({
+    ...job.request,
+    settings: withServerEndpoints(job.request.settings),
+    credentials: { geminiKey: config.geminiKey, endpointKey: config.endpointKey },
+  }, {
+    executablePath: config.chromePath,
+    signal: job.controller.signal,
+    onProgress: (message, progress) => update({ message, progress }),
+    onFile: async (name, data, append) => {
+      const target = path.join(dir, name);
+      await (append ? appendFile(target, data) : writeFile(target, data));
+      files.set(name, (append ? files.get(name) || 0 : 0) + data.length);
+      update({ files: [...files].map(([name, size]) => ({ name, size })) });
+    },
+  });
+};
+
+const queue = createJobQueue({
+  concurrency: config.concurrency,
+  retentionMs: config.retentionMs,
+  run: runJob,
+  onExpire: job => { rm(jobDir(job.id), { recursive: true, force: true }).catch(() => {}); },
+});
+
+// Only JSON bodies are read, so browsers have to send a CORS preflight first
+const readJson = (req: IncomingMessage): Promise<unknown> => {
+  const type = (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  if (type !== 'application/json') return Promise.reject(new HttpError(415, 'Body must be application/json.'));
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > config.maxUploadBytes) {
+        reject(new HttpError(413, `Upload exceeds ${config.maxUploadBytes / 1024 / 1024} MB.`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'Body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const parseJobRequest = (body: unknown): RenderJobRequest => {
+  const job = body as Partial<RenderJobRequest> | null;
+  const files = Array.isArray(job?.files) ? job.files : [];
+  const slides = Array.isArray(job?.slides) && job.slides.length > 0 ? job.slides : undefined;
+  if (!job || (files.length === 0 && !slides)) throw new HttpError(400, 'No deck files or slides given.');
+  if (files.some(f => typeof f?.name !== 'string' || typeof f.base64 !== 'string')) {
+    throw new HttpError(400, 'Files must be { name, type, base64 }.');
+  }
+  if (slides?.some(s => typeof s?.image !== 'string' || typeof s.text !== 'string')) {
+    throw new HttpError(400, 'Slides must have an image and text.');
+  }
+  // Clients cannot send endpoints, so a provider that needs one only works when the server has it
+  const settings = job.settings || {};
+  if (settings.scriptProvider?.id === 'openai' && !config.scriptEndpoint) {
+    throw new HttpError(400, 'This server has no script endpoint: set SLIDESTREAM_SCRIPT_ENDPOINT to use the OpenAI-compatible provider.');
+  }
+  if (settings.speechProvider?.id === 'http' && !config.speechEndpoint) {
+    throw new HttpError(400, 'This server has no speech endpoint: set SLIDESTREAM_SPEECH_ENDPOINT to use the HTTP TTS provider.');
+  }
+  const name = path.basename(String(job.name || files[0]?.name || 'deck')).replace(/\.[^.]*$/, '').replace(/[^\w.-]+/g, '_') || 'deck';
+  return { name, files, slides: slides?.map((slide, index) => ({ ...slide, index })), settings, music: job.music, outputs: job.outputs };
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+};
+
+const getJob = (id: string): RenderJob => {
+  const job = queue.get(id);
+  if (!job) throw new HttpError(404, 'No such job.');
+  return job;
+};
+
+// The event stream is the one request that cannot send headers, so only it may pass the token in the URL
+const isAuthorized = (req: IncomingMessage, url: URL): boolean => {
+  if (!config.accessToken) return true;
+  const header = req.headers.authorization || '';
+  if (header === `Bearer ${config.accessToken}`) return true;
+  return url.pathname.endsWith('/events') && req.method === 'GET' && url.searchParams.get('token') === config.accessToken;
+};
+
+const streamEvents = (req: IncomingMessage, res: ServerResponse, job: RenderJob) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const send = (status: RenderJobStatus) => {
+    res.write(`data: ${JSON.stringify(status)}\n\n`);
+    if (status.state === 'done' || status.state === 'failed' || status.state === 'cancelled') close();
+  };
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+  const unsubscribe = queue.subscribe(job.id, send);
+  const close = () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    res.end();
+  };
+  req.on('close', close);
+  send(job.status);
+};
+
+const sendFile = async (res: ServerResponse, job: RenderJob, name: string) => {
+  if (!job.status.files.some(f => f.name === name)) throw new HttpError(404, 'No such file.');
+  const file = path.join(jobDir(job.id), path.basename(name));
+  const { size } = await stat(file);
+  res.writeHead(200, {
+    'Content-Type': mimeFor(file),
+    'Content-Length': size,
+    'Content-Disposition': `attachment; filename="${encodeURIComponent(name)}"`,
+  });
+  // A failed read (the job expiring mid-download, say) rejects here instead of crashing the server
+  await pipeline(createReadStream(file), res);
+};
+
+const handle = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  // Requests without an Origin header do not come from a web page
+  const origin = req.headers.origin;
+  res.setHeader('Vary', 'Origin');
+  if (origin) {
+    if (!config.allowedOrigins.includes(origin) && !config.allowedOrigins.includes('*')) {
+      throw new HttpError(403, 'Origin not allowed.');
+    }
+    res.setHeader('Access-Control-Allow-Origin', origin);
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    }).end();
+    return;
+  }
+  if (!isAuthorized(req, url)) throw new HttpError(401, 'Missing or wrong access token.');
+
+  const [, api, jobs, id, action, name] = url.pathname.split('/');
+  if (api !== 'api' || jobs !== 'jobs') throw new HttpError(404, 'Not found.');
+
+  if (!id) {
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed.');
+    const job = queue.submit(parseJobRequest(await readJson(req)));
+    sendJson(res, 202, job.status);
+    return;
+  }
+
+  const job = getJob(id);
+  if (!action && req.method === 'GET') return sendJson(res, 200, job.status);
+  if (!action && req.method === 'DELETE') {
+    queue.cancel(id);
+    return sendJson(res, 200, job.status);
+  }
+  if (action === 'events' && req.method === 'GET') return streamEvents(req, res, job);
+  if (action === 'files' && name && req.method === 'GET') return sendFile(res, job, decodeURIComponent(name));
+  throw new HttpError(404, 'Not found.');
+};
+
+const main = async () => {
+  if (!config.chromePath) throw new Error('No Chrome executable: set CHROME_PATH.');
+  if ((config.geminiKey || config.endpointKey) && !config.accessToken) {
+    throw new Error('The server holds provider keys: set SLIDESTREAM_ACCESS_TOKEN so only your clients can use them.');
+  }
+  await assertHeadlessBuild();
+  await mkdir(config.dataDir, { recursive: true });
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch(err => {
+      const status = err instanceof HttpError ? err.status : 500;
+      if (status === 500) console.error(err);
+      if (res.headersSent) res.end();
+      else sendJson(res, status, { error: err instanceof Error ? err.message : String(err) });
+    });
+  });
+  server.listen(config.port, config.host, () => {
+    console.log(`SlideStream render server on http://${config.host}:${config.port} (${config.concurrency} at a time)`);
+  });
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -1 +0,0 @@
-jh
\ No newline at end of file
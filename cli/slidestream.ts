@@ -0,0 +1,222 @@
+#!/usr/bin/env node
+import { readFile, writeFile, appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { AppLanguage, AudioExportSettings, AudioFormat, ProjectSettings, VideoContainer } from '../types';
+import { LANGUAGES } from '../services/languages.js';
+import type { HeadlessFile, HeadlessJob, HeadlessOutputs } from '../headless/job.js';
+import { assertHeadlessBuild, mimeFor, runHeadlessJob } from '../headless/runner.js';
+
+/**
+ * Command-line front end of the headless renderer: turns flags and a config
+ * file into a render job and writes every file the page streams back.
+ *
+ *   slidestream render deck.pdf --duration 120 --lang ko --out deck.mp4
+ */
+
+const USAGE = `Usage: slidestream render <deck...> [options]
+
+Decks can be PDF, PPTX or image files; several are joined in the given order.
+
+Options:
+  --config <file>       JSON project settings (the app's settings format), plus
+                        optional "outputs" and "musicFile" entries
+  --duration <seconds>  target length of the narration
+  --lang <code>         narration language (${LANGUAGES.map(l => l.id).join(', ')})
+  --translate <codes>   extra narration languages, comma separated
+  --style <text>        narration tone
+  --out <file>          video path; the other outputs are written next to it
+  --container <mp4|webm>
+  --multitrack          one video carrying every language instead of one per language
+  --audio-format <mp3|ogg|wav>
+  --audio-bitrate <kbps> bitrate of MP3 and Opus audio
+  --no-video, --no-audio, --no-scripts, --no-subtitles
+  --transcript          also write a plain-text transcript per language
+  --chapters            also write WebVTT chapters, a YouTube chapter list and a
+                        JSON timeline manifest per language
+  --chrome <path>       Chrome/Chromium executable (default: $CHROME_PATH)
+
+The Gemini API key is read from $GEMINI_API_KEY or $API_KEY, the key for
+OpenAI-compatible and HTTP TTS endpoints from $SLIDESTREAM_ENDPOINT_KEY.
+Run "npm run build" first; the page is served from dist/.`;
+
+interface CliConfig extends Partial<ProjectSettings> {
+  outputs?: Partial<HeadlessOutputs>;
+  musicFile?: string; // used when music.source is 'upload'
+}
+
+interface CliArgs {
+  decks: string[];
+  flags: Map<string, string | true>;
+}
+
+// Flags that never take a value
+const SWITCHES = new Set(['multitrack', 'no-video', 'no-audio', 'no-scripts', 'no-subtitles', 'transcript', 'chapters', 'help']);
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): CliArgs => {
+  const decks: string[] = [];
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      decks.push(arg);
+      continue;
+    }
+    const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+    if (SWITCHES.has(name)) {
+      flags.set(name, true);
+    } else if (inline !== undefined) {
+      flags.set(name, inline);
+    } else if (i + 1 < argv.length) {
+      flags.set(name, argv[++i]);
+    } else {
+      throw new UsageError(`Missing value for --${name}`);
+    }
+  }
+  return { decks, flags };
+};
+
+const stringFlag = (flags: CliArgs['flags'], name: string): string | undefined => {
+  const value = flags.get(name);
+  return typeof value === 'string' ? value : undefined;
+};
+
+const toLanguage = (code: string): AppLanguage => {
+  const info = LANGUAGES.find(l => l.id === code);
+  if (!info) throw new UsageError(`Unsupported language: ${code}`);
+  return info.id;
+};
+
+const readInput = async (file: string): Promise<HeadlessFile> => ({
+  name: path.basename(file),
+  type: mimeFor(file),
+  base64: (await readFile(file)).toString('base64'),
+});
+
+/**
+ * Builds the job from the config file with the command-line flags on top.
+ */
+const buildJob = async ({ decks, flags }: CliArgs): Promise<{ job: HeadlessJob; outDir: string }> => {
+  if (decks.length === 0) throw new UsageError('No deck given.');
+
+  const configPath = stringFlag(flags, 'config');
+  const config: CliConfig = configPath ? JSON.parse(await readFile(configPath, 'utf8')) : {};
+  const { outputs: configOutputs, musicFile, ...settings } = config;
+
+  const duration = stringFlag(flags, 'duration');
+  if (duration !== undefined) {
+    if (!(Number(duration) > 0)) throw new UsageError(`Invalid --duration: ${duration}`);
+    settings.duration = Number(duration);
+  }
+  const lang = stringFlag(flags, 'lang');
+  if (lang) settings.language = toLanguage(lang);
+  const translate = stringFlag(flags, 'translate');
+  if (translate) {
+    settings.translations = translate.split(',').map(l => l.trim()).filter(Boolean)
+      .map(language => ({ language: toLanguage(language), voice: '' }));
+  }
+  const style = stringFlag(flags, 'style');
+  if (style) settings.style = style;
+
+  const out = stringFlag(flags, 'out');
+  const container = stringFlag(flags, 'container') || (out && path.extname(out).slice(1)) || undefined;
+  if (container) {
+    if (container !== 'mp4' && container !== 'webm') throw new UsageError(`Unsupported container: ${container}`);
+    settings.videoContainer = container as VideoContainer;
+  }
+
+  // Merged over the defaults in the page, so a partial object is enough
+  const audioExport: Partial<AudioExportSettings> = { ...settings.audioExport };
+  const audioFormat = stringFlag(flags, 'audio-format');
+  if (audioFormat) {
+    if (!['mp3', 'ogg', 'wav'].includes(audioFormat)) throw new UsageError(`Unsupported audio format: ${audioFormat}`);
+    audioExport.format = audioFormat as AudioFormat;
+  }
+  const audioBitrate = stringFlag(flags, 'audio-bitrate');
+  if (audioBitrate !== undefined) {
+    if (!(Number(audioBitrate) > 0)) throw new UsageError(`Invalid --audio-bitrate: ${audioBitrate}`);
+    audioExport.bitrate = Number(audioBitrate);
+  }
+  if (Object.keys(audioExport).length > 0) settings.audioExport = audioExport as AudioExportSettings;
+
+  const outputs: Partial<HeadlessOutputs> = { ...configOutputs };
+  if (flags.has('multitrack')) outputs.multiTrack = true;
+  if (flags.has('transcript')) outputs.transcript = true;
+  if (flags.has('chapters')) outputs.chapters = true;
+  if (flags.has('no-video')) outputs.video = false;
+  if (flags.has('no-audio')) outputs.audio = false;
+  if (flags.has('no-scripts')) outputs.scripts = false;
+  if (flags.has('no-subtitles')) outputs.subtitles = [];
+
+  const base = out || decks[0];
+  const name = path.basename(base, path.extname(base));
+  const outDir = out ? path.dirname(path.resolve(out)) : process.cwd();
+  const musicPath = musicFile && configPath ? path.resolve(path.dirname(configPath), musicFile) : undefined;
+
+  return {
+    job: {
+      name,
+      files: await Promise.all(decks.map(readInput)),
+      settings,
+      credentials: {
+        geminiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+        endpointKey: process.env.SLIDESTREAM_ENDPOINT_KEY || '',
+      },
+      music: musicPath ? await readInput(musicPath) : undefined,
+      outputs,
+    },
+    outDir,
+  };
+};
+
+const render = async (args: CliArgs) => {
+  const { job, outDir } = await buildJob(args);
+  const executablePath = stringFlag(args.flags, 'chrome') || process.env.CHROME_PATH || process.env.PUPPETEER_EXECUTABLE_PATH;
+  if (!executablePath) throw new UsageError('No Chrome executable: pass --chrome or set CHROME_PATH.');
+  await assertHeadlessBuild();
+  await mkdir(outDir, { recursive: true });
+
+  let lastLine = '';
+  const written = await runHeadlessJob(job, {
+    executablePath,
+    onProgress: (message, percent) => {
+      const line = `${message} ${percent}%`;
+      if (line === lastLine) return;
+      lastLine = line;
+      process.stderr.write(process.stderr.isTTY ? `\r\x1b[K${line}` : `${line}\n`);
+    },
+    onFile: (name, data, append) => {
+      const target = path.join(outDir, name);
+      return append ? appendFile(target, data) : writeFile(target, data);
+    },
+  });
+
+  if (process.stderr.isTTY) process.stderr.write('\n');
+  for (const name of written) console.log(path.join(outDir, name));
+};
+
+const main = async () => {
+  const [command, ...rest] = process.argv.slice(2);
+  if (!command || command === '--help' || command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+  if (command !== 'render') throw new UsageError(`Unknown command: ${command}`);
+  const args = parseArgs(rest);
+  if (args.flags.has('help')) {
+    console.log(USAGE);
+    return;
+  }
+  await render(args);
+};
+
+main().catch(err => {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+  } else {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  }
+});
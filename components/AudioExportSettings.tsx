@@ -0,0 +1,101 @@
+import React from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { AudioExportSettings as AudioExportSettingsValue, AudioFormat } from '../types';
+import { AUDIO_BITRATES, AUDIO_FORMAT_OPTIONS } from '../services/audioExport';
+
+interface AudioExportSettingsProps {
+  settings: AudioExportSettingsValue;
+  onChange: (settings: AudioExportSettingsValue) => void;
+}
+
+const AudioExportSettings: React.FC<AudioExportSettingsProps> = ({ settings, onChange }) => {
+  const update = (patch: Partial<AudioExportSettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2 text-sm font-bold text-slate-700">
+          <SlidersHorizontal size={16} className="text-slate-400" />
+          Audio export
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <select
+            value={settings.format}
+            onChange={(e) => update({ format: e.target.value as AudioFormat })}
+            className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+          >
+            {AUDIO_FORMAT_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          {settings.format !== 'wav' && (
+            <select
+              value={settings.bitrate}
+              onChange={(e) => update({ bitrate: Number(e.target.value) })}
+              className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+            >
+              {AUDIO_BITRATES.map(b => <option key={b} value={b}>{b} kbps</option>)}
+            </select>
+          )}
+          <label className="flex items-center gap-1.5 font-medium text-slate-600">
+            <input
+              type="checkbox"
+              checked={settings.mastering}
+              onChange={(e) => update({ mastering: e.target.checked })}
+            />
+            Mastering
+          </label>
+        </div>
+      </div>
+
+      {settings.mastering && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Loudness ({settings.targetLufs} LUFS)</span>
+            <input
+              type="range" min="-24" max="-10" step="1"
+              value={settings.targetLufs}
+              onChange={(e) => update({ targetLufs: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Gap between slides ({settings.gap}s)</span>
+            <input
+              type="range" min="0" max="3" step="0.1"
+              value={settings.gap}
+              onChange={(e) => update({ gap: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Crossfade ({Math.round(settings.crossfade * 1000)} ms)</span>
+            <input
+              type="range" min="0" max="0.2" step="0.01"
+              value={settings.crossfade}
+              onChange={(e) => update({ crossfade: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Limiter ceiling ({settings.ceiling} dB)</span>
+            <input
+              type="range" min="-6" max="0" step="0.5"
+              value={settings.ceiling}
+              onChange={(e) => update({ ceiling: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <label className="col-span-2 md:col-span-4 flex items-center gap-1.5 font-medium text-slate-500">
+            <input
+              type="checkbox"
+              checked={settings.trimSilence}
+              onChange={(e) => update({ trimSilence: e.target.checked })}
+            />
+            Trim silence before and after each slide
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioExportSettings;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Captions } from 'lucide-react';
+import { CaptionPosition, CaptionStyle } from '../types';
+
+interface CaptionSettingsProps {
+  style: CaptionStyle;
+  onChange: (style: CaptionStyle) => void;
+}
+
+const fontOptions: { value: string; label: string }[] = [
+  { value: 'Inter, "Noto Sans KR", sans-serif', label: 'Sans (Inter / Noto Sans KR)' },
+  { value: '"Noto Serif KR", Georgia, serif', label: 'Serif' },
+  { value: '"Nanum Gothic", "Malgun Gothic", sans-serif', label: 'Nanum / Malgun Gothic' },
+  { value: 'ui-monospace, Menlo, monospace', label: 'Monospace' },
+];
+
+const positions: { value: CaptionPosition; label: string }[] = [
+  { value: 'bottom', label: 'Bottom' },
+  { value: 'middle', label: 'Middle' },
+  { value: 'top', label: 'Top' },
+];
+
+const CaptionSettings: React.FC<CaptionSettingsProps> = ({ style, onChange }) => {
+  const update = (patch: Partial<CaptionStyle>) => onChange({ ...style, ...patch });
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-4">
+      <label className="flex items-center gap-2 text-sm font-bold text-slate-700">
+        <input type="checkbox" checked={style.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+        <Captions size={16} className="text-slate-400" />
+        Burn captions into exported video
+      </label>
+
+      {style.enabled && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Font</span>
+            <select 
+              value={style.fontFamily}
+              onChange={(e) => update({ fontFamily: e.target.value })}
+              className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+            >
+              {fontOptions.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Size ({style.fontSize}% of height)</span>
+            <input 
+              type="range" min="2" max="10" step="0.5"
+              value={style.fontSize}
+              onChange={(e) => update({ fontSize: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Position</span>
+            <select 
+              value={style.position}
+              onChange={(e) => update({ position: e.target.value as CaptionPosition })}
+              className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+            >
+              {positions.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="flex items-center gap-1.5 font-medium text-slate-500">
+              <input type="checkbox" checked={style.background} onChange={(e) => update({ background: e.target.checked })} />
+              Background box
+            </label>
+            <input 
+              type="range" min="0.2" max="1" step="0.1"
+              value={style.backgroundOpacity}
+              disabled={!style.background}
+              onChange={(e) => update({ backgroundOpacity: Number(e.target.value) })}
+              className="w-full disabled:opacity-40"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptionSettings;
@@ -1,7 +1,14 @@
 
 import React from 'react';
-import { Upload, Clock, MessageSquare, AlertCircle, Globe, FileText, Image as ImageIcon, Monitor, Smartphone, Square, Tv, Layers } from 'lucide-react';
-import { AppState, AppLanguage, AspectRatio, ResolutionScale } from '../types';
+import { Upload, Clock, MessageSquare, AlertCircle, Globe, FileText, Image as ImageIcon, Monitor, Smartphone, Square, Tv, Layers, Cpu, Mic, Timer, Languages, Users } from 'lucide-react';
+import { AppState, AppLanguage, NotesMode, AspectRatio, ResolutionScale, ScriptProviderId, ScriptProviderSettings, DurationFitSettings, DialogueHost, DialogueSettings, PronunciationEntry, SpeechProviderId, SpeechProviderSettings, TranslationSettings } from '../types';
+import { SCRIPT_PROVIDERS, getScriptProviderInfo } from '../services/scriptProviders';
+import { SPEECH_PROVIDERS, getSpeechProviderInfo } from '../services/speechProviders';
+import { VoiceOption } from '../services/speech';
+import { LANGUAGES } from '../services/languages';
+import { defaultHostVoice } from '../services/dialogue';
+import DurationReport from './DurationReport';
+import PronunciationSettings from './PronunciationSettings';
 
 interface DashboardProps {
   state: AppState;
@@ -9,8 +16,17 @@ interface DashboardProps {
   onDurationChange: (duration: number) => void;
   onStyleChange: (style: string) => void;
   onLanguageChange: (lang: AppLanguage) => void;
+  onTranslationsChange: (translations: TranslationSettings[]) => void;
+  translationVoices: Partial<Record<AppLanguage, VoiceOption[]>>;
+  onNotesModeChange: (mode: NotesMode) => void;
+  onDialogueChange: (settings: DialogueSettings) => void;
+  onLexiconChange: (lexicon: PronunciationEntry[]) => void;
+  onDurationFitChange: (settings: DurationFitSettings) => void;
   onAspectRatioChange: (ratio: AspectRatio) => void;
   onResolutionScaleChange: (scale: ResolutionScale) => void;
+  onScriptProviderChange: (settings: ScriptProviderSettings) => void;
+  voices: VoiceOption[];
+  onSpeechProviderChange: (settings: SpeechProviderSettings) => void;
   onGenerate: () => void;
 }
 
@@ -20,10 +36,50 @@ const Dashboard: React.FC<DashboardProps> = ({
   onDurationChange, 
   onStyleChange,
   onLanguageChange,
+  onTranslationsChange,
+  translationVoices,
+  onNotesModeChange,
+  onDialogueChange,
+  onLexiconChange,
+  onDurationFitChange,
   onAspectRatioChange,
   onResolutionScaleChange,
+  onScriptProviderChange,
+  voices,
+  onSpeechProviderChange,
   onGenerate 
 }) => {
+  const scriptProvider = state.scriptProvider;
+  const scriptProviderInfo = getScriptProviderInfo(scriptProvider.id);
+
+  const handleScriptProviderSelect = (id: ScriptProviderId) => {
+    onScriptProviderChange({ ...scriptProvider, id, model: getScriptProviderInfo(id).defaultModel });
+  };
+
+  const toggleTranslation = (language: AppLanguage) => {
+    const exists = state.translations.some(t => t.language === language);
+    onTranslationsChange(exists
+      ? state.translations.filter(t => t.language !== language)
+      : [...state.translations, { language, voice: '' }]);
+  };
+
+  const setTranslationVoice = (language: AppLanguage, voice: string) =>
+    onTranslationsChange(state.translations.map(t => t.language === language ? { ...t, voice } : t));
+
+  const dialogue = state.dialogue;
+  const updateHost = (i: 0 | 1, patch: Partial<DialogueHost>) => {
+    const hosts: [DialogueHost, DialogueHost] = [...dialogue.hosts];
+    hosts[i] = { ...hosts[i], ...patch };
+    onDialogueChange({ ...dialogue, hosts });
+  };
+
+  const durationFit = state.durationFit;
+  const updateDurationFit = (patch: Partial<DurationFitSettings>) => onDurationFitChange({ ...durationFit, ...patch });
+  const hasVoicedNarration = state.narrations.some(n => n.audioBuffer);
+
+  const speechProvider = state.speechProvider;
+  const speechProviderInfo = getSpeechProviderInfo(speechProvider.id);
+
   const handleFileDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
@@ -63,7 +119,7 @@ const Dashboard: React.FC<DashboardProps> = ({
           >
             <input 
               type="file" 
-              accept=".pdf, image/*" 
+              accept=".pdf, .pptx, image/*" 
               multiple
               className="hidden" 
               id="file-upload" 
@@ -82,9 +138,9 @@ const Dashboard: React.FC<DashboardProps> = ({
                       {state.files.length > 3 && '...'}
                     </div>
                   </div>
-                ) : 'Click to upload or drag PDF/Images'}
+                ) : 'Click to upload or drag PDF/PPTX/Images'}
               </div>
-              <p className="text-xs text-slate-500 mt-1">Accepts PDF, JPG, PNG, WEBP</p>
+              <p className="text-xs text-slate-500 mt-1">Accepts PDF, PPTX, JPG, PNG, WEBP</p>
             </label>
           </div>
 
@@ -114,11 +170,153 @@ const Dashboard: React.FC<DashboardProps> = ({
                 onChange={(e) => onLanguageChange(e.target.value as AppLanguage)}
                 className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none appearance-none"
               >
-                <option value="ko">한국어 (Korean)</option>
-                <option value="en">English (US)</option>
+                {LANGUAGES.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+              </select>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Languages size={16} className="text-slate-400" />
+                Also Translate Into
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {LANGUAGES.filter(l => l.id !== state.language).map(l => {
+                  const selected = state.translations.some(t => t.language === l.id);
+                  return (
+                    <button
+                      key={l.id}
+                      onClick={() => toggleTranslation(l.id)}
+                      className={`px-3 py-1.5 rounded-lg border text-xs transition-all
+                        ${selected 
+                          ? 'bg-blue-50 border-blue-500 text-blue-700 font-bold' 
+                          : 'bg-slate-50 border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+                    >
+                      {l.label}
+                    </button>
+                  );
+                })}
+              </div>
+              {state.translations.map(t => {
+                const options = translationVoices[t.language] || [];
+                return (
+                  <div key={t.language} className="flex items-center gap-3 text-xs text-slate-600">
+                    <span className="w-36 shrink-0">{LANGUAGES.find(l => l.id === t.language)?.label} voice</span>
+                    <select 
+                      value={options.some(v => v.id === t.voice) ? t.voice : (options[0]?.id || '')}
+                      onChange={(e) => setTranslationVoice(t.language, e.target.value)}
+                      disabled={options.length === 0}
+                      className="flex-1 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg outline-none disabled:opacity-50"
+                    >
+                      {options.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <FileText size={16} className="text-slate-400" />
+                Speaker Notes (PPTX)
+              </label>
+              <select 
+                value={state.notesMode}
+                onChange={(e) => onNotesModeChange(e.target.value as NotesMode)}
+                className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none appearance-none"
+              >
+                <option value="polish">Polish notes in the chosen tone</option>
+                <option value="verbatim">Read notes verbatim</option>
+                <option value="ignore">Ignore notes</option>
               </select>
             </div>
 
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Users size={16} className="text-slate-400" />
+                Narration Format
+              </label>
+              <div className="grid grid-cols-2 gap-2">
+                {([['monologue', 'Single narrator'], ['dialogue', 'Two-host dialogue']] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => onDialogueChange({ ...dialogue, mode })}
+                    className={`p-2 rounded-xl border text-xs transition-all
+                      ${dialogue.mode === mode 
+                        ? 'bg-blue-50 border-blue-500 text-blue-700 font-bold' 
+                        : 'bg-slate-50 border-slate-200 text-slate-500 hover:bg-slate-100'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+              {dialogue.mode === 'dialogue' && dialogue.hosts.map((host, i) => (
+                <div key={i} className="grid grid-cols-[6rem_1fr_8rem] gap-2 text-xs">
+                  <input 
+                    type="text"
+                    value={host.name}
+                    placeholder="Name"
+                    onChange={(e) => updateHost(i as 0 | 1, { name: e.target.value })}
+                    className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg outline-none"
+                  />
+                  <input 
+                    type="text"
+                    value={host.role}
+                    placeholder="Role, e.g. domain expert"
+                    onChange={(e) => updateHost(i as 0 | 1, { role: e.target.value })}
+                    className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg outline-none"
+                  />
+                  <select 
+                    value={voices.some(v => v.id === host.voice) ? host.voice : defaultHostVoice(i, voices)}
+                    onChange={(e) => updateHost(i as 0 | 1, { voice: e.target.value })}
+                    disabled={voices.length === 0}
+                    className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg outline-none disabled:opacity-50"
+                  >
+                    {voices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                  </select>
+                </div>
+              ))}
+              {dialogue.mode === 'dialogue' && (
+                <p className="text-[10px] text-slate-400 italic">Host voices are used for every narration language.</p>
+              )}
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Timer size={16} className="text-slate-400" />
+                Duration Fitting
+              </label>
+              <div className="flex flex-wrap items-center gap-4 text-xs text-slate-600">
+                <label className="flex items-center gap-2">
+                  <input 
+                    type="checkbox"
+                    checked={durationFit.enabled}
+                    onChange={(e) => updateDurationFit({ enabled: e.target.checked })}
+                  />
+                  Rewrite slides until the audio matches the target
+                </label>
+                <label className="flex items-center gap-2">
+                  Tolerance ±
+                  <select 
+                    value={durationFit.tolerance}
+                    disabled={!durationFit.enabled}
+                    onChange={(e) => updateDurationFit({ tolerance: Number(e.target.value) })}
+                    className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg outline-none disabled:opacity-50"
+                  >
+                    {[0.05, 0.1, 0.15, 0.2].map(t => <option key={t} value={t}>{Math.round(t * 100)}%</option>)}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input 
+                    type="checkbox"
+                    checked={durationFit.timeStretch}
+                    disabled={!durationFit.enabled}
+                    onChange={(e) => updateDurationFit({ timeStretch: e.target.checked })}
+                  />
+                  Finish with mild time-stretch (±10%)
+                </label>
+              </div>
+            </div>
+
             {/* Aspect Ratio Selection */}
             <div className="space-y-2 md:col-span-2">
               <label className="text-sm font-medium flex items-center gap-2 mb-2">
@@ -188,6 +386,93 @@ const Dashboard: React.FC<DashboardProps> = ({
             </div>
           </div>
 
+          {/* Script Provider */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Cpu size={16} className="text-slate-400" />
+                Script Model Provider
+              </label>
+              <select 
+                value={scriptProvider.id}
+                onChange={(e) => handleScriptProviderSelect(e.target.value as ScriptProviderId)}
+                className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none appearance-none"
+              >
+                {SCRIPT_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Model</label>
+              <input 
+                type="text"
+                value={scriptProvider.model}
+                disabled={scriptProvider.id === 'mock'}
+                onChange={(e) => onScriptProviderChange({ ...scriptProvider, model: e.target.value })}
+                className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none disabled:opacity-50"
+              />
+            </div>
+            {scriptProviderInfo.needsEndpoint && (
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-sm font-medium">Endpoint Base URL</label>
+                <input 
+                  type="url"
+                  value={scriptProvider.endpoint}
+                  placeholder="http://localhost:11434/v1"
+                  onChange={(e) => onScriptProviderChange({ ...scriptProvider, endpoint: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none"
+                />
+                <label className="flex items-center gap-2 text-xs text-slate-500">
+                  <input 
+                    type="checkbox"
+                    checked={scriptProvider.sendImages}
+                    onChange={(e) => onScriptProviderChange({ ...scriptProvider, sendImages: e.target.checked })}
+                  />
+                  Send slide images (turn off for text-only models)
+                </label>
+              </div>
+            )}
+          </div>
+
+          {/* Speech Provider */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium flex items-center gap-2">
+                <Mic size={16} className="text-slate-400" />
+                Speech Engine
+              </label>
+              <select 
+                value={speechProvider.id}
+                onChange={(e) => onSpeechProviderChange({ ...speechProvider, id: e.target.value as SpeechProviderId, voice: '' })}
+                className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none appearance-none"
+              >
+                {SPEECH_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Voice</label>
+              <select 
+                value={voices.some(v => v.id === speechProvider.voice) ? speechProvider.voice : (voices[0]?.id || '')}
+                onChange={(e) => onSpeechProviderChange({ ...speechProvider, voice: e.target.value })}
+                disabled={voices.length === 0}
+                className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none appearance-none disabled:opacity-50"
+              >
+                {voices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+              </select>
+            </div>
+            {speechProviderInfo.needsEndpoint && (
+              <div className="space-y-2 md:col-span-2">
+                <label className="text-sm font-medium">TTS Server URL</label>
+                <input 
+                  type="url"
+                  value={speechProvider.endpoint}
+                  placeholder="http://localhost:5002/tts"
+                  onChange={(e) => onSpeechProviderChange({ ...speechProvider, endpoint: e.target.value })}
+                  className="w-full px-4 py-2 bg-slate-50 border border-slate-200 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none"
+                />
+              </div>
+            )}
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Additional Custom Voice Instructions</label>
             <textarea 
@@ -198,6 +483,17 @@ const Dashboard: React.FC<DashboardProps> = ({
             />
           </div>
 
+          <PronunciationSettings lexicon={state.lexicon} onChange={onLexiconChange} />
+
+          {hasVoicedNarration && (
+            <DurationReport 
+              slides={state.slides}
+              narrations={state.narrations}
+              targetSeconds={state.duration}
+              tolerance={durationFit.tolerance}
+            />
+          )}
+
           {state.error && (
             <div className="p-4 bg-red-50 border border-red-100 rounded-xl flex items-start gap-3 text-red-700">
               <AlertCircle className="shrink-0 mt-0.5" size={18} />
@@ -210,7 +506,7 @@ const Dashboard: React.FC<DashboardProps> = ({
             onClick={onGenerate}
             className="w-full py-4 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white font-bold rounded-xl shadow-lg shadow-blue-500/25 transition-all flex items-center justify-center gap-2 text-lg"
           >
-            Generate Video Presentation
+            {state.slides.length > 0 ? 'Continue to Slides' : 'Arrange Slides'}
           </button>
         </div>
       </div>
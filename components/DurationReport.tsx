@@ -0,0 +1,58 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { NarrationSegment, SlideData } from '../types';
+import { getNarrationSeconds, getSlideTargetSeconds } from '../services/durationFit';
+
+interface DurationReportProps {
+  slides: SlideData[];
+  narrations: NarrationSegment[];
+  targetSeconds: number;
+  tolerance: number;
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const DurationReport: React.FC<DurationReportProps> = ({ slides, narrations, targetSeconds, tolerance }) => {
+  const slideTarget = getSlideTargetSeconds(targetSeconds, slides.length);
+  const actualTotal = getNarrationSeconds(narrations);
+  const totalOff = Math.abs(actualTotal - targetSeconds) > targetSeconds * tolerance;
+  const maxSeconds = Math.max(slideTarget, ...narrations.map(n => n.audioBuffer?.duration || 0), 1);
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between text-sm font-bold text-slate-700">
+        <span className="flex items-center gap-2">
+          <Timer size={16} className="text-slate-400" />
+          Target vs. actual duration
+        </span>
+        <span className={totalOff ? 'text-amber-600' : 'text-green-600'}>
+          {formatSeconds(actualTotal)} / {formatSeconds(targetSeconds)}
+        </span>
+      </div>
+
+      <div className="space-y-1 max-h-48 overflow-y-auto pr-1">
+        {slides.map(slide => {
+          const actual = narrations.find(n => n.slideIndex === slide.index)?.audioBuffer?.duration;
+          const deviation = actual !== undefined ? (actual - slideTarget) / slideTarget : 0;
+          return (
+            <div key={slide.index} className="grid grid-cols-[3rem_1fr_7rem] items-center gap-2 text-[11px] text-slate-500">
+              <span className="font-medium">#{slide.index + 1}</span>
+              <div className="relative h-2 bg-slate-200 rounded-full overflow-hidden">
+                <div 
+                  className={`absolute inset-y-0 left-0 rounded-full ${Math.abs(deviation) > 0.25 ? 'bg-amber-400' : 'bg-blue-500'}`}
+                  style={{ width: `${((actual || 0) / maxSeconds) * 100}%` }}
+                />
+                <div className="absolute inset-y-0 w-0.5 bg-slate-700" style={{ left: `${(slideTarget / maxSeconds) * 100}%` }} />
+              </div>
+              <span className="text-right tabular-nums">
+                {actual !== undefined ? formatSeconds(actual) : '—'} / {formatSeconds(slideTarget)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default DurationReport;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Film } from 'lucide-react';
+import { MotionType, SlideEffects, TransitionType } from '../types';
+import { MOTION_OPTIONS, TRANSITION_OPTIONS } from '../services/frameRenderer';
+
+interface EffectsSettingsProps {
+  effects: SlideEffects;
+  onChange: (effects: SlideEffects) => void;
+}
+
+const EffectsSettings: React.FC<EffectsSettingsProps> = ({ effects, onChange }) => {
+  const update = (patch: Partial<SlideEffects>) => onChange({ ...effects, ...patch });
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-bold text-slate-700">
+        <Film size={16} className="text-slate-400" />
+        Transitions & motion (all slides)
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-xs">
+        <div className="space-y-1">
+          <span className="font-medium text-slate-500">Transition</span>
+          <select 
+            value={effects.transition}
+            onChange={(e) => update({ transition: e.target.value as TransitionType })}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+          >
+            {TRANSITION_OPTIONS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <span className="font-medium text-slate-500">Transition length ({effects.transitionDuration.toFixed(1)}s)</span>
+          <input 
+            type="range" min="0.2" max="2" step="0.1"
+            value={effects.transitionDuration}
+            disabled={effects.transition === 'cut'}
+            onChange={(e) => update({ transitionDuration: Number(e.target.value) })}
+            className="w-full disabled:opacity-40"
+          />
+        </div>
+        <div className="space-y-1">
+          <span className="font-medium text-slate-500">Motion</span>
+          <select 
+            value={effects.motion}
+            onChange={(e) => update({ motion: e.target.value as MotionType })}
+            className="w-full px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+          >
+            {MOTION_OPTIONS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+          </select>
+        </div>
+      </div>
+      <p className="text-[10px] text-slate-400 italic">Individual slides can override these in the slide list below.</p>
+    </div>
+  );
+};
+
+export default EffectsSettings;
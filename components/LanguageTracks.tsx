@@ -0,0 +1,74 @@
+import React from 'react';
+import { Languages, Download, Layers } from 'lucide-react';
+import { AppLanguage, NarrationTrack, VideoContainer } from '../types';
+import { getLanguageInfo } from '../services/languages';
+
+interface LanguageTracksProps {
+  primary: AppLanguage;
+  tracks: NarrationTrack[]; // primary first
+  active: AppLanguage;
+  exporting: boolean;
+  container: VideoContainer;
+  onSelect: (language: AppLanguage) => void;
+  onExportEach: () => void;
+  onExportMultiTrack: () => void;
+}
+
+const LanguageTracks: React.FC<LanguageTracksProps> = ({
+  primary,
+  tracks,
+  active,
+  exporting,
+  container,
+  onSelect,
+  onExportEach,
+  onExportMultiTrack,
+}) => (
+  <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+    <div className="flex items-center gap-2 text-sm font-bold text-slate-700">
+      <Languages size={16} className="text-slate-400" />
+      Narration languages
+    </div>
+
+    <div className="flex flex-wrap gap-2">
+      {tracks.map(track => {
+        const voiced = track.narrations.filter(n => n.audioBuffer).length;
+        return (
+          <button
+            key={track.language}
+            onClick={() => onSelect(track.language)}
+            className={`px-3 py-1.5 rounded-lg border text-xs font-bold transition-all
+              ${active === track.language 
+                ? 'bg-blue-600 border-blue-600 text-white' 
+                : 'bg-white border-slate-200 text-slate-600 hover:bg-slate-100'}`}
+          >
+            {getLanguageInfo(track.language).label}
+            {track.language === primary && <span className="ml-1 font-normal opacity-70">(source)</span>}
+            <span className="ml-2 font-normal opacity-70">{voiced}/{track.narrations.length}</span>
+          </button>
+        );
+      })}
+    </div>
+
+    <div className="flex flex-wrap gap-2">
+      <button
+        onClick={onExportEach}
+        disabled={exporting}
+        className="flex items-center gap-2 bg-white hover:bg-slate-100 disabled:opacity-50 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold border border-slate-200"
+      >
+        <Download size={14} />
+        One .{container} per language
+      </button>
+      <button
+        onClick={onExportMultiTrack}
+        disabled={exporting}
+        className="flex items-center gap-2 bg-white hover:bg-slate-100 disabled:opacity-50 text-slate-700 px-3 py-2 rounded-lg text-xs font-bold border border-slate-200"
+      >
+        <Layers size={14} />
+        One .{container} with all audio and subtitle tracks
+      </button>
+    </div>
+  </div>
+);
+
+export default LanguageTracks;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { Music2, Upload } from 'lucide-react';
+import { MusicSettings as MusicSettingsValue, MusicSource } from '../types';
+import { MUSIC_SOURCE_OPTIONS } from '../services/music';
+
+interface MusicSettingsProps {
+  settings: MusicSettingsValue;
+  uploadName: string | null;
+  onChange: (settings: MusicSettingsValue) => void;
+  onUpload: (file: File) => void;
+}
+
+const MusicSettings: React.FC<MusicSettingsProps> = ({ settings, uploadName, onChange, onUpload }) => {
+  const update = (patch: Partial<MusicSettingsValue>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-2 text-sm font-bold text-slate-700">
+          <Music2 size={16} className="text-slate-400" />
+          Background music
+        </div>
+        <div className="flex items-center gap-2 text-xs">
+          <select 
+            value={settings.source}
+            onChange={(e) => update({ source: e.target.value as MusicSource })}
+            className="px-2 py-1.5 bg-white border border-slate-200 rounded-lg outline-none"
+          >
+            {MUSIC_SOURCE_OPTIONS
+              .filter(o => o.value !== 'upload' || uploadName)
+              .map(o => <option key={o.value} value={o.value}>{o.value === 'upload' ? `${o.label}: ${uploadName}` : o.label}</option>)}
+          </select>
+          <label className="flex items-center gap-1 px-2 py-1.5 bg-white border border-slate-200 rounded-lg cursor-pointer hover:bg-slate-100 font-medium text-slate-600">
+            <Upload size={12} /> Upload
+            <input 
+              type="file" 
+              accept="audio/*" 
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) onUpload(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      </div>
+
+      {settings.source !== 'none' && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Music level ({Math.round(settings.gain * 100)}%)</span>
+            <input 
+              type="range" min="0" max="1" step="0.05"
+              value={settings.gain}
+              onChange={(e) => update({ gain: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Under narration ({Math.round(settings.duckLevel * 100)}%)</span>
+            <input 
+              type="range" min="0" max="1" step="0.05"
+              value={settings.duckLevel}
+              onChange={(e) => update({ duckLevel: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Fade in ({settings.fadeIn}s)</span>
+            <input 
+              type="range" min="0" max="10" step="0.5"
+              value={settings.fadeIn}
+              onChange={(e) => update({ fadeIn: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-1">
+            <span className="font-medium text-slate-500">Fade out ({settings.fadeOut}s)</span>
+            <input 
+              type="range" min="0" max="10" step="0.5"
+              value={settings.fadeOut}
+              onChange={(e) => update({ fadeOut: Number(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MusicSettings;
@@ -1,21 +1,148 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Play, Pause, ChevronLeft, ChevronRight, Volume2, Maximize } from 'lucide-react';
-import { SlideData, NarrationSegment } from '../types';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Play, Pause, ChevronLeft, ChevronRight, Volume2, VolumeX, Maximize, Minimize, RefreshCw, Mic, Loader2, Pencil, BookOpen } from 'lucide-react';
+import { SlideData, NarrationSegment, SegmentStatus, AspectRatio, SlideEffects, MotionType, TransitionType, DialogueSettings } from '../types';
+import { buildTimeline, findTimelineEntry, getCanvasSize, getTimelineDuration } from '../services/timeline';
+import { renderFrame, resolveSlideEffects, MOTION_OPTIONS, TRANSITION_OPTIONS } from '../services/frameRenderer';
+import { MusicBed, ScheduledMusic, scheduleMusicBed } from '../services/music';
+import { timeStretchBuffer } from '../services/audioUtils';
+import { buildSubtitleCues, findCueAt } from '../services/subtitles';
 
 interface PresentationPlayerProps {
   slides: SlideData[];
   narrations: NarrationSegment[];
+  aspectRatio: AspectRatio;
+  effects: SlideEffects;
+  dialogue?: DialogueSettings;
+  music: MusicBed | null;
+  // Jump here when it changes, e.g. from a Q&A citation
+  focusRequest?: { slideIndex: number; requestedAt: number };
+  onSlideEffectsChange: (slideIndex: number, effects: Partial<SlideEffects> | undefined) => void;
+  onScriptChange: (slideIndex: number, script: string) => void;
+  onRegenerateScript: (slideIndex: number) => Promise<void>;
+  onRevoice: (slideIndex: number, script: string) => Promise<void>;
 }
 
-const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ slides, narrations }) => {
+const statusStyles: Record<SegmentStatus, { label: string; className: string }> = {
+  stale: { label: 'Stale', className: 'bg-amber-100 text-amber-700' },
+  voicing: { label: 'Voicing', className: 'bg-blue-100 text-blue-700' },
+  done: { label: 'Done', className: 'bg-emerald-100 text-emerald-700' },
+};
+
+const statusDots: Record<SegmentStatus, string> = {
+  stale: 'bg-amber-400',
+  voicing: 'bg-blue-500 animate-pulse',
+  done: 'bg-emerald-500',
+};
+
+const SPEEDS = [0.75, 1, 1.25, 1.5, 2];
+// J and L jump this many seconds
+const SEEK_STEP = 10;
+const VOLUME_STEP = 0.1;
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+};
+
+// Narration sped up or slowed down without changing its pitch, per buffer and speed
+const stretchedBuffers = new WeakMap<AudioBuffer, Map<number, AudioBuffer>>();
+
+const getPlaybackBuffer = (buffer: AudioBuffer, rate: number, ctx: BaseAudioContext): AudioBuffer => {
+  if (rate === 1) return buffer;
+  if (!stretchedBuffers.has(buffer)) stretchedBuffers.set(buffer, new Map());
+  const byRate = stretchedBuffers.get(buffer)!;
+  if (!byRate.has(rate)) byRate.set(rate, timeStretchBuffer(buffer, rate, ctx));
+  return byRate.get(rate)!;
+};
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ 
+  slides, 
+  narrations, 
+  aspectRatio, 
+  effects, 
+  dialogue,
+  music,
+  focusRequest,
+  onSlideEffectsChange, 
+  onScriptChange, 
+  onRegenerateScript, 
+  onRevoice 
+}) => {
   const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [time, setTime] = useState(0);
+  const [hoverTime, setHoverTime] = useState<number | null>(null);
+  const [volume, setVolume] = useState(1);
+  const [muted, setMuted] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [draftScript, setDraftScript] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const masterGainRef = useRef<GainNode | null>(null);
   const sourceNodeRef = useRef<AudioBufferSourceNode | null>(null);
-  const startTimeRef = useRef<number>(0);
-  const pausedAtRef = useRef<number>(0);
+  // Where the playhead sits while paused; while playing, the clock runs from `clockRef`
+  const playheadRef = useRef(0);
+  const clockRef = useRef<{ ctxTime: number; timelineTime: number } | null>(null);
+  const playingIndexRef = useRef(-1);
+  const rateRef = useRef(rate);
+  const levelRef = useRef(1);
+  levelRef.current = muted ? 0 : volume;
+  const scrubRef = useRef<{ wasPlaying: boolean } | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const readAlongRef = useRef<HTMLDivElement>(null);
+  const imagesRef = useRef<Map<number, HTMLImageElement>>(new Map());
+
+  const timeline = useMemo(() => buildTimeline(slides, narrations), [slides, narrations]);
+  const totalDuration = getTimelineDuration(timeline);
+  const timelineRef = useRef(timeline);
+  timelineRef.current = timeline;
+  const canvasSize = getCanvasSize(aspectRatio, 1);
+
+  useEffect(() => {
+    const images = new Map<number, HTMLImageElement>();
+    slides.forEach(slide => {
+      const img = imagesRef.current.get(slide.index);
+      if (img && img.src === slide.image) {
+        images.set(slide.index, img);
+      } else {
+        const next = new Image();
+        next.src = slide.image;
+        images.set(slide.index, next);
+      }
+    });
+    imagesRef.current = images;
+  }, [slides]);
+
+  const musicRef = useRef<{ scheduled: ScheduledMusic; bed: MusicBed; timeline: typeof timeline; rate: number; ctxStart: number; timelineStart: number } | null>(null);
+
+  const getContext = useCallback((): AudioContext => {
+    if (!audioContextRef.current) {
+      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)() as AudioContext;
+      const gain = ctx.createGain();
+      gain.gain.value = levelRef.current;
+      gain.connect(ctx.destination);
+      audioContextRef.current = ctx;
+      masterGainRef.current = gain;
+    }
+    return audioContextRef.current;
+  }, []);
+
+  useEffect(() => {
+    if (masterGainRef.current) masterGainRef.current.gain.value = muted ? 0 : volume;
+  }, [volume, muted]);
+
+  const getTime = useCallback((): number => {
+    const clock = clockRef.current;
+    const ctx = audioContextRef.current;
+    return clock && ctx ? clock.timelineTime + (ctx.currentTime - clock.ctxTime) * rateRef.current : playheadRef.current;
+  }, []);
 
   const stopAudio = useCallback(() => {
     if (sourceNodeRef.current) {
@@ -24,104 +151,390 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ slides, narrati
     }
   }, []);
 
-  const playSlideAudio = useCallback((index: number, offset: number = 0) => {
-    stopAudio();
-    const narration = narrations.find(n => n.slideIndex === index);
-    if (!narration?.audioBuffer) return;
+  const stopMusic = useCallback(() => {
+    musicRef.current?.scheduled.stop();
+    musicRef.current = null;
+  }, []);
 
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+  // The music bed runs across slide changes; it is only rescheduled when it drifts from the narration
+  const syncMusic = useCallback((ctx: AudioContext, timelineTime: number) => {
+    if (!music || music.settings.source === 'none') { stopMusic(); return; }
+    const current = musicRef.current;
+    if (current && current.bed === music && current.timeline === timeline && current.rate === rateRef.current) {
+      const position = current.timelineStart + (ctx.currentTime - current.ctxStart) * current.rate;
+      if (Math.abs(position - timelineTime) < 0.25) return;
     }
-
-    const source = audioContextRef.current.createBufferSource();
-    source.buffer = narration.audioBuffer;
-    source.connect(audioContextRef.current.destination);
-    
-    source.onended = () => {
-      if (index < slides.length - 1 && isPlaying) {
-        setCurrentSlideIndex(prev => prev + 1);
-        setProgress(0);
-      } else if (index === slides.length - 1) {
-        setIsPlaying(false);
-        setProgress(100);
-      }
+    stopMusic();
+    musicRef.current = {
+      scheduled: scheduleMusicBed(ctx, masterGainRef.current!, music.buffer, timeline, music.settings, ctx.currentTime, timelineTime, rateRef.current),
+      bed: music,
+      timeline,
+      rate: rateRef.current,
+      ctxStart: ctx.currentTime,
+      timelineStart: timelineTime,
     };
+  }, [music, timeline, stopMusic]);
 
-    source.start(0, offset);
+  // Starts the narration of timeline entry `index`, `local` seconds into it
+  const playEntry = useCallback((index: number, local: number) => {
+    stopAudio();
+    playingIndexRef.current = index;
+    const ctx = getContext();
+    const buffer = timelineRef.current[index]?.narration?.audioBuffer;
+    if (!buffer || local >= buffer.duration) return;
+
+    const source = ctx.createBufferSource();
+    source.buffer = getPlaybackBuffer(buffer, rateRef.current, ctx);
+    source.connect(masterGainRef.current!);
+    source.start(0, Math.max(0, local) / rateRef.current);
     sourceNodeRef.current = source;
-    startTimeRef.current = audioContextRef.current.currentTime - offset;
-  }, [narrations, slides.length, isPlaying, stopAudio]);
+  }, [getContext, stopAudio]);
+
+  const startAt = useCallback((timelineTime: number) => {
+    const ctx = getContext();
+    if (ctx.state === 'suspended') ctx.resume();
+    const index = findTimelineEntry(timelineRef.current, timelineTime);
+    clockRef.current = { ctxTime: ctx.currentTime, timelineTime };
+    playEntry(index, timelineTime - (timelineRef.current[index]?.start || 0));
+    syncMusic(ctx, timelineTime);
+    setCurrentSlideIndex(index);
+  }, [getContext, playEntry, syncMusic]);
+
+  const pausePlayback = useCallback(() => {
+    playheadRef.current = getTime();
+    clockRef.current = null;
+    playingIndexRef.current = -1;
+    stopAudio();
+    stopMusic();
+  }, [getTime, stopAudio, stopMusic]);
 
   useEffect(() => {
-    if (isPlaying) {
-      playSlideAudio(currentSlideIndex);
+    if (!isPlaying) { pausePlayback(); return; }
+    if (clockRef.current) return;
+    const total = getTimelineDuration(timelineRef.current);
+    if (total === 0) { setIsPlaying(false); return; }
+    // Playing again after the end starts over
+    startAt(playheadRef.current >= total - 0.01 ? 0 : playheadRef.current);
+  }, [isPlaying, pausePlayback, startAt]);
+
+  // A re-voiced narration or another music bed takes effect right away, from the same position
+  useEffect(() => {
+    const total = getTimelineDuration(timeline);
+    if (clockRef.current) {
+      startAt(Math.min(getTime(), Math.max(0, total - 0.01)));
+    } else {
+      playheadRef.current = Math.min(playheadRef.current, total);
+      setTime(playheadRef.current);
+      setCurrentSlideIndex(prev => Math.min(prev, Math.max(slides.length - 1, 0)));
+    }
+  }, [timeline, startAt, getTime, slides.length]);
+
+  useEffect(() => () => { stopAudio(); stopMusic(); }, [stopAudio, stopMusic]);
+
+  const seek = useCallback((target: number) => {
+    const total = getTimelineDuration(timelineRef.current);
+    const clamped = Math.min(Math.max(target, 0), total);
+    if (clockRef.current && clamped < total) {
+      startAt(clamped);
     } else {
-      stopAudio();
+      if (clockRef.current) setIsPlaying(false);
+      pausePlayback();
+      playheadRef.current = clamped;
+      setCurrentSlideIndex(findTimelineEntry(timelineRef.current, clamped));
     }
-    return () => stopAudio();
-  }, [isPlaying, currentSlideIndex, playSlideAudio, stopAudio]);
+    setTime(clamped);
+  }, [startAt, pausePlayback]);
+
+  const seekToSlide = useCallback((index: number) => {
+    const entry = timelineRef.current[index];
+    if (entry) seek(entry.start);
+  }, [seek]);
 
-  // Update Progress Bar
+  const handledFocusRef = useRef(focusRequest);
+  useEffect(() => {
+    if (!focusRequest || focusRequest === handledFocusRef.current) return;
+    handledFocusRef.current = focusRequest;
+    setIsPlaying(false);
+    pausePlayback();
+    seekToSlide(focusRequest.slideIndex);
+    containerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusRequest, pausePlayback, seekToSlide]);
+
+  // Advance the clock: switch narration at slide boundaries and stop at the end
   useEffect(() => {
     let frame: number;
     const update = () => {
-      if (isPlaying && sourceNodeRef.current && sourceNodeRef.current.buffer) {
-        const duration = sourceNodeRef.current.buffer.duration;
-        const elapsed = audioContextRef.current!.currentTime - startTimeRef.current;
-        setProgress(Math.min((elapsed / duration) * 100, 100));
+      if (clockRef.current) {
+        const now = getTime();
+        const total = getTimelineDuration(timelineRef.current);
+        if (now >= total) {
+          pausePlayback();
+          playheadRef.current = total;
+          setTime(total);
+          setIsPlaying(false);
+        } else {
+          const index = findTimelineEntry(timelineRef.current, now);
+          if (index !== playingIndexRef.current) {
+            playEntry(index, now - timelineRef.current[index].start);
+            setCurrentSlideIndex(index);
+          }
+          setTime(now);
+        }
       }
       frame = requestAnimationFrame(update);
     };
     update();
     return () => cancelAnimationFrame(frame);
-  }, [isPlaying]);
+  }, [getTime, pausePlayback, playEntry]);
 
-  const handleNext = () => {
-    if (currentSlideIndex < slides.length - 1) {
-      setCurrentSlideIndex(prev => prev + 1);
-      setProgress(0);
-    }
+  // Paint the slide through the same renderer the video export uses
+  useEffect(() => {
+    let frame: number;
+    const getImage = (slide: SlideData) => {
+      const img = imagesRef.current.get(slide.index);
+      return img && img.complete && img.naturalWidth > 0 ? img : undefined;
+    };
+    const draw = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      const total = getTimelineDuration(timeline);
+      if (canvas && ctx && total > 0) {
+        const now = Math.min(getTime(), total - 0.001);
+        const entry = timeline[findTimelineEntry(timeline, now)];
+        // Paused on a slide's first frame, show it with its incoming transition finished
+        const shown = !clockRef.current && now === entry.start
+          ? entry.start + Math.min(resolveSlideEffects(effects, entry.slide).transitionDuration, entry.duration - 0.001)
+          : now;
+        renderFrame(ctx, canvas.width, canvas.height, timeline, shown, effects, getImage);
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [timeline, effects, getTime]);
+
+  const handleNext = useCallback(() => {
+    if (currentSlideIndex < slides.length - 1) seekToSlide(currentSlideIndex + 1);
+  }, [currentSlideIndex, slides.length, seekToSlide]);
+
+  const handlePrev = useCallback(() => {
+    if (currentSlideIndex > 0) seekToSlide(currentSlideIndex - 1);
+  }, [currentSlideIndex, seekToSlide]);
+
+  const changeRate = (next: number) => {
+    const now = getTime();
+    rateRef.current = next;
+    setRate(next);
+    if (clockRef.current) startAt(now);
   };
 
-  const handlePrev = () => {
-    if (currentSlideIndex > 0) {
-      setCurrentSlideIndex(prev => prev - 1);
-      setProgress(0);
-    }
+  const toggleFullscreen = useCallback(() => {
+    if (document.fullscreenElement) document.exitFullscreen();
+    else containerRef.current?.requestFullscreen();
+  }, []);
+
+  useEffect(() => {
+    const onChange = () => setIsFullscreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  // Space/K play, arrows change slides (up/down: volume), J/L jump, M mutes, F goes fullscreen
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      // A focused button already answers to space
+      if (e.key === ' ' && e.target instanceof HTMLButtonElement) return;
+      switch (e.key) {
+        case ' ':
+        case 'k':
+        case 'K':
+          setIsPlaying(prev => !prev);
+          break;
+        case 'ArrowRight': handleNext(); break;
+        case 'ArrowLeft': handlePrev(); break;
+        case 'j':
+        case 'J':
+          seek(getTime() - SEEK_STEP);
+          break;
+        case 'l':
+        case 'L':
+          seek(getTime() + SEEK_STEP);
+          break;
+        case 'ArrowUp':
+          setMuted(false);
+          setVolume(v => Math.min(1, v + VOLUME_STEP));
+          break;
+        case 'ArrowDown':
+          setVolume(v => Math.max(0, v - VOLUME_STEP));
+          break;
+        case 'm':
+        case 'M':
+          setMuted(m => !m);
+          break;
+        case 'f':
+        case 'F':
+          toggleFullscreen();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleNext, handlePrev, seek, getTime, toggleFullscreen]);
+
+  const timeAtPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1) * totalDuration;
+  };
+
+  // Dragging pauses the audio and moves the paused playhead; letting go resumes if it was playing
+  const handleScrubStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    scrubRef.current = { wasPlaying: !!clockRef.current };
+    pausePlayback();
+    seek(timeAtPointer(e));
+  };
+
+  const handleScrubMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    setHoverTime(timeAtPointer(e));
+    if (scrubRef.current) seek(timeAtPointer(e));
+  };
+
+  const handleScrubEnd = () => {
+    const scrub = scrubRef.current;
+    scrubRef.current = null;
+    if (scrub?.wasPlaying && playheadRef.current < totalDuration) startAt(playheadRef.current);
+    else if (scrub?.wasPlaying) setIsPlaying(false);
   };
 
   const currentSlide = slides[currentSlideIndex];
   const currentNarration = narrations.find(n => n.slideIndex === currentSlideIndex);
+  const currentStatus = currentNarration?.status || (currentNarration?.audioBuffer ? 'done' : 'stale');
+  const isVoicing = currentStatus === 'voicing';
+
+  // Keep the editor in sync when the slide changes or the script is replaced from outside
+  useEffect(() => {
+    setDraftScript(currentNarration?.script || '');
+  }, [currentSlideIndex, currentNarration?.script]);
+
+  // Read-along: the slide's captions, timed word by word like the burned-in ones
+  const currentEntry = timeline[currentSlideIndex];
+  const slideCues = useMemo(() => currentEntry ? buildSubtitleCues([currentEntry], dialogue) : [], [currentEntry, dialogue]);
+  const activeCue = findCueAt(slideCues, time);
+  const isReadingAlong = !isEditing && currentStatus === 'done' && slideCues.length > 0;
+
+  // Keep the spoken sentence in view without scrolling the page
+  useEffect(() => {
+    const box = readAlongRef.current;
+    const cue = box?.querySelector<HTMLElement>(`[data-cue="${activeCue}"]`);
+    if (!box || !cue) return;
+    if (cue.offsetTop < box.scrollTop || cue.offsetTop + cue.offsetHeight > box.scrollTop + box.clientHeight) {
+      box.scrollTop = cue.offsetTop - box.clientHeight / 3;
+    }
+  }, [activeCue]);
+
+  const handleRegenerate = async () => {
+    setIsRegenerating(true);
+    try {
+      await onRegenerateScript(currentSlideIndex);
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  const handleRevoice = () => {
+    setIsPlaying(false);
+    onRevoice(currentSlideIndex, draftScript);
+  };
 
   return (
     <div className="space-y-6">
-      <div className="bg-slate-900 rounded-xl overflow-hidden shadow-xl aspect-video relative group">
-        <img 
-          src={currentSlide.image} 
-          alt={`Slide ${currentSlideIndex + 1}`} 
+      <div ref={containerRef} className={`bg-slate-900 overflow-hidden relative group ${isFullscreen ? '' : 'rounded-xl shadow-xl aspect-video'}`}>
+        <canvas 
+          ref={canvasRef}
+          width={canvasSize.width}
+          height={canvasSize.height}
+          aria-label={`Slide ${currentSlideIndex + 1}`}
           className="w-full h-full object-contain"
         />
         
         {/* Controls Overlay */}
-        <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex flex-col justify-end p-4">
-          <div className="flex flex-col gap-4">
-            <div className="w-full h-1 bg-white/20 rounded-full overflow-hidden">
-              <div className="h-full bg-blue-500 transition-all duration-100" style={{ width: `${progress}%` }} />
+        <div className={`absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent transition-opacity flex flex-col justify-end p-4
+          ${isPlaying ? 'opacity-0 group-hover:opacity-100' : 'opacity-100'}`}>
+          <div className="flex flex-col gap-3">
+            <div
+              role="slider"
+              aria-label="Presentation timeline"
+              aria-valuemin={0}
+              aria-valuemax={Math.round(totalDuration)}
+              aria-valuenow={Math.round(time)}
+              onPointerDown={handleScrubStart}
+              onPointerMove={handleScrubMove}
+              onPointerUp={handleScrubEnd}
+              onPointerCancel={handleScrubEnd}
+              onPointerLeave={() => setHoverTime(null)}
+              className="relative h-4 flex items-center cursor-pointer touch-none group/bar"
+            >
+              <div className="relative w-full h-1 group-hover/bar:h-1.5 bg-white/20 rounded-full transition-all">
+                <div className="absolute inset-y-0 left-0 bg-blue-500 rounded-full" style={{ width: `${totalDuration > 0 ? (time / totalDuration) * 100 : 0}%` }} />
+                {timeline.slice(1).map(entry => (
+                  <div
+                    key={entry.slide.index}
+                    className="absolute -top-0.5 -bottom-0.5 w-0.5 bg-white/70"
+                    style={{ left: `${(entry.start / totalDuration) * 100}%` }}
+                  />
+                ))}
+              </div>
+              {hoverTime !== null && totalDuration > 0 && (
+                <div
+                  className="absolute bottom-5 -translate-x-1/2 px-2 py-0.5 rounded bg-black/80 text-white text-[10px] font-medium whitespace-nowrap pointer-events-none"
+                  style={{ left: `${(hoverTime / totalDuration) * 100}%` }}
+                >
+                  Slide {findTimelineEntry(timeline, hoverTime) + 1} · {formatTime(hoverTime)}
+                </div>
+              )}
             </div>
             <div className="flex items-center justify-between text-white">
               <div className="flex items-center gap-4">
-                <button onClick={() => setIsPlaying(!isPlaying)} className="hover:text-blue-400 transition-colors">
+                <button onClick={() => setIsPlaying(!isPlaying)} title={isPlaying ? 'Pause (K)' : 'Play (K)'} className="hover:text-blue-400 transition-colors">
                   {isPlaying ? <Pause size={24} fill="currentColor" /> : <Play size={24} fill="currentColor" />}
                 </button>
                 <div className="flex items-center gap-2">
-                  <button onClick={handlePrev} className="hover:text-blue-400"><ChevronLeft size={24} /></button>
+                  <button onClick={handlePrev} title="Previous slide (←)" className="hover:text-blue-400"><ChevronLeft size={24} /></button>
                   <span className="text-sm font-medium tabular-nums">{currentSlideIndex + 1} / {slides.length}</span>
-                  <button onClick={handleNext} className="hover:text-blue-400"><ChevronRight size={24} /></button>
+                  <button onClick={handleNext} title="Next slide (→)" className="hover:text-blue-400"><ChevronRight size={24} /></button>
                 </div>
+                <span className="text-xs font-medium tabular-nums text-white/80">{formatTime(time)} / {formatTime(totalDuration)}</span>
               </div>
               <div className="flex items-center gap-4">
-                <Volume2 size={20} />
-                <Maximize size={20} className="cursor-pointer hover:text-blue-400" />
+                <div className="flex items-center gap-2 group/volume">
+                  <button onClick={() => setMuted(!muted)} title={muted ? 'Unmute (M)' : 'Mute (M)'} className="hover:text-blue-400">
+                    {muted || volume === 0 ? <VolumeX size={20} /> : <Volume2 size={20} />}
+                  </button>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={muted ? 0 : volume}
+                    onChange={(e) => { setVolume(Number(e.target.value)); setMuted(false); }}
+                    aria-label="Volume"
+                    className="w-0 group-hover/volume:w-20 transition-all accent-blue-500"
+                  />
+                </div>
+                <button
+                  onClick={() => changeRate(SPEEDS[(SPEEDS.indexOf(rate) + 1) % SPEEDS.length])}
+                  title="Playback speed"
+                  className="text-xs font-bold tabular-nums w-10 hover:text-blue-400"
+                >
+                  {rate}x
+                </button>
+                <button onClick={toggleFullscreen} title={isFullscreen ? 'Exit fullscreen (F)' : 'Fullscreen (F)'} className="hover:text-blue-400">
+                  {isFullscreen ? <Minimize size={20} /> : <Maximize size={20} />}
+                </button>
               </div>
             </div>
           </div>
@@ -130,24 +543,139 @@ const PresentationPlayer: React.FC<PresentationPlayerProps> = ({ slides, narrati
 
       <div className="grid md:grid-cols-3 gap-6">
         <div className="md:col-span-2 bg-slate-50 border border-slate-200 rounded-xl p-6">
-          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Narration Script</h4>
-          <p className="text-slate-800 leading-relaxed italic">
-            "{currentNarration?.script || 'No script generated for this slide.'}"
-          </p>
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Narration Script</h4>
+            {currentNarration && (
+              <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full ${statusStyles[currentStatus].className}`}>
+                {statusStyles[currentStatus].label}
+              </span>
+            )}
+          </div>
+          {currentNarration ? (
+            <>
+              {isReadingAlong ? (
+                <div ref={readAlongRef} className="relative max-h-48 overflow-y-auto px-4 py-3 bg-white border border-slate-200 rounded-lg leading-relaxed">
+                  {slideCues.map((cue, i) => (
+                    <React.Fragment key={i}>
+                      {cue.speaker && cue.speaker !== slideCues[i - 1]?.speaker && (
+                        <span className={`${i > 0 ? 'block mt-2' : ''} text-xs font-bold text-blue-600`}>{cue.speaker}: </span>
+                      )}
+                      <span
+                        data-cue={i}
+                        onClick={() => seek(cue.start)}
+                        title="Play from here"
+                        className={`cursor-pointer rounded transition-colors ${i === activeCue ? 'bg-blue-50' : 'hover:bg-slate-100'}`}
+                      >
+                        {(cue.words || [{ text: cue.text, start: cue.start, end: cue.end }]).map((word, j) => (
+                          <span
+                            key={j}
+                            className={time >= word.start && time < word.end
+                              ? 'bg-yellow-200 text-slate-900 rounded'
+                              : time >= word.end ? 'text-slate-800' : 'text-slate-500'}
+                          >
+                            {word.text}{' '}
+                          </span>
+                        ))}
+                      </span>
+                    </React.Fragment>
+                  ))}
+                </div>
+              ) : (
+                <textarea
+                  rows={6}
+                  value={draftScript}
+                  disabled={isVoicing || isRegenerating}
+                  onChange={(e) => setDraftScript(e.target.value)}
+                  onBlur={() => onScriptChange(currentSlideIndex, draftScript)}
+                  className="w-full px-4 py-3 bg-white border border-slate-200 rounded-lg text-slate-800 leading-relaxed focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all outline-none resize-y disabled:opacity-60"
+                />
+              )}
+              {!isReadingAlong && <p className="text-[10px] text-slate-400 mt-1">Markup: [pause 1s] · *emphasis* · [spell API]</p>}
+              <div className="flex gap-2 mt-3">
+                {currentStatus === 'done' && (
+                  <button
+                    onClick={() => setIsEditing(!isEditing)}
+                    className="flex items-center gap-1.5 text-xs font-bold px-3 py-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-100 transition-colors"
+                  >
+                    {isReadingAlong ? <Pencil size={14} /> : <BookOpen size={14} />}
+                    {isReadingAlong ? 'Edit script' : 'Read along'}
+                  </button>
+                )}
+                <button
+                  onClick={handleRegenerate}
+                  disabled={isVoicing || isRegenerating}
+                  className="flex items-center gap-1.5 text-xs font-bold px-3 py-2 rounded-lg border border-slate-200 bg-white text-slate-600 hover:bg-slate-100 disabled:opacity-50 transition-colors"
+                >
+                  {isRegenerating ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+                  Rewrite script
+                </button>
+                <button
+                  onClick={handleRevoice}
+                  disabled={isVoicing || isRegenerating || !draftScript.trim() || (currentStatus === 'done' && draftScript === currentNarration.script)}
+                  className="flex items-center gap-1.5 text-xs font-bold px-3 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:bg-slate-300 transition-colors"
+                >
+                  {isVoicing ? <Loader2 size={14} className="animate-spin" /> : <Mic size={14} />}
+                  Re-voice this slide
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="text-slate-800 leading-relaxed italic">"No script generated for this slide."</p>
+          )}
         </div>
         <div className="bg-white border border-slate-200 rounded-xl p-4 overflow-y-auto max-h-[300px]">
           <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Slide Content</h4>
+          {currentSlide && (
+            <div className="grid grid-cols-2 gap-2 mb-4 text-xs">
+              <label className="space-y-1">
+                <span className="font-medium text-slate-500">Transition in</span>
+                <select
+                  value={currentSlide.effects?.transition || ''}
+                  onChange={(e) => onSlideEffectsChange(currentSlide.index, {
+                    ...currentSlide.effects,
+                    transition: (e.target.value || undefined) as TransitionType | undefined,
+                  })}
+                  className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none"
+                >
+                  <option value="">Default</option>
+                  {TRANSITION_OPTIONS.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+                </select>
+              </label>
+              <label className="space-y-1">
+                <span className="font-medium text-slate-500">Motion</span>
+                <select
+                  value={currentSlide.effects?.motion || ''}
+                  onChange={(e) => onSlideEffectsChange(currentSlide.index, {
+                    ...currentSlide.effects,
+                    motion: (e.target.value || undefined) as MotionType | undefined,
+                  })}
+                  className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg outline-none"
+                >
+                  <option value="">Default</option>
+                  {MOTION_OPTIONS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+              </label>
+            </div>
+          )}
           <div className="space-y-3">
-             {slides.map((s, idx) => (
-               <button 
-                key={idx}
-                onClick={() => { setCurrentSlideIndex(idx); setIsPlaying(false); }}
-                className={`w-full text-left p-2 rounded-lg text-sm transition-colors border
-                  ${currentSlideIndex === idx ? 'bg-blue-50 border-blue-200 text-blue-700 font-medium' : 'hover:bg-slate-50 border-transparent text-slate-600'}`}
-               >
-                 Slide {idx + 1}
-               </button>
-             ))}
+             {slides.map((s, idx) => {
+               const narration = narrations.find(n => n.slideIndex === idx);
+               const status = narration?.status || (narration?.audioBuffer ? 'done' : 'stale');
+               return (
+                 <button 
+                  key={idx}
+                  onClick={() => { setIsPlaying(false); pausePlayback(); seekToSlide(idx); }}
+                  className={`w-full text-left p-2 rounded-lg text-sm transition-colors border flex items-center justify-between
+                    ${currentSlideIndex === idx ? 'bg-blue-50 border-blue-200 text-blue-700 font-medium' : 'hover:bg-slate-50 border-transparent text-slate-600'}`}
+                 >
+                   <span className="flex items-center gap-2">
+                     <img src={s.thumbnail || s.image} alt="" loading="lazy" className="w-12 aspect-video object-contain bg-slate-100 rounded border border-slate-200" />
+                     Slide {idx + 1}
+                   </span>
+                   {narration && <span className={`w-2 h-2 rounded-full ${statusDots[status]}`} title={statusStyles[status].label} />}
+                 </button>
+               );
+             })}
           </div>
         </div>
       </div>
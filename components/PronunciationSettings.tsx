@@ -0,0 +1,58 @@
+import React from 'react';
+import { BookA, Plus, Trash2 } from 'lucide-react';
+import { PronunciationEntry } from '../types';
+
+interface PronunciationSettingsProps {
+  lexicon: PronunciationEntry[];
+  onChange: (lexicon: PronunciationEntry[]) => void;
+}
+
+const PronunciationSettings: React.FC<PronunciationSettingsProps> = ({ lexicon, onChange }) => {
+  const update = (i: number, patch: Partial<PronunciationEntry>) =>
+    onChange(lexicon.map((entry, j) => j === i ? { ...entry, ...patch } : entry));
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-sm font-bold text-slate-700">
+          <BookA size={16} className="text-slate-400" />
+          Pronunciation dictionary
+        </span>
+        <button
+          onClick={() => onChange([...lexicon, { term: '', spoken: '' }])}
+          className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700"
+        >
+          <Plus size={14} /> Add term
+        </button>
+      </div>
+
+      {lexicon.map((entry, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs">
+          <input
+            type="text"
+            value={entry.term}
+            placeholder="Written, e.g. SQL"
+            onChange={(e) => update(i, { term: e.target.value })}
+            className="px-2 py-1 bg-white border border-slate-200 rounded-lg outline-none"
+          />
+          <input
+            type="text"
+            value={entry.spoken}
+            placeholder="Spoken, e.g. sequel"
+            onChange={(e) => update(i, { spoken: e.target.value })}
+            className="px-2 py-1 bg-white border border-slate-200 rounded-lg outline-none"
+          />
+          <button onClick={() => onChange(lexicon.filter((_, j) => j !== i))} className="text-slate-400 hover:text-red-500">
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      <p className="text-[10px] text-slate-400 leading-relaxed">
+        Applied to every script before voicing. Scripts also accept <code>[pause 1s]</code>, <code>*emphasis*</code> and <code>[spell API]</code>; subtitles show the plain text.
+      </p>
+    </div>
+  );
+};
+
+export default PronunciationSettings;
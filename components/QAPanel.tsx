@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageCircleQuestion, Send, Loader2, Volume2, Square } from 'lucide-react';
+import { DeckAnswer, QuestionTurn } from '../services/deckQa';
+
+interface QAPanelProps {
+  onAsk: (question: string, history: QuestionTurn[]) => Promise<DeckAnswer>;
+  onSpeak: (text: string) => Promise<AudioBuffer>;
+  onJumpToSlide: (slideIndex: number) => void;
+}
+
+interface QAEntry {
+  question: string;
+  answer?: DeckAnswer;
+  error?: string;
+}
+
+/**
+ * Ask questions about the finished presentation. Answers cite the slides they
+ * draw on; each citation jumps the player there, and answers can be read aloud.
+ */
+const QAPanel: React.FC<QAPanelProps> = ({ onAsk, onSpeak, onJumpToSlide }) => {
+  const [entries, setEntries] = useState<QAEntry[]>([]);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  const [speaking, setSpeaking] = useState<number | null>(null);
+  const [loadingSpeech, setLoadingSpeech] = useState<number | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const stopSpeaking = () => {
+    if (sourceRef.current) {
+      sourceRef.current.onended = null;
+      sourceRef.current.stop();
+      sourceRef.current = null;
+    }
+    setSpeaking(null);
+  };
+
+  useEffect(() => () => stopSpeaking(), []);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight, behavior: 'smooth' });
+  }, [entries.length, asking]);
+
+  const handleAsk = async () => {
+    const text = question.trim();
+    if (!text || asking) return;
+    const history: QuestionTurn[] = entries
+      .filter(e => e.answer)
+      .map(e => ({ question: e.question, answer: e.answer!.answer }));
+    setQuestion('');
+    setAsking(true);
+    setEntries(prev => [...prev, { question: text }]);
+    try {
+      const answer = await onAsk(text, history);
+      setEntries(prev => prev.map((e, i) => i === prev.length - 1 ? { ...e, answer } : e));
+    } catch (err: any) {
+      console.error(err);
+      setEntries(prev => prev.map((e, i) => i === prev.length - 1 ? { ...e, error: err.message || 'Could not answer the question.' } : e));
+    } finally {
+      setAsking(false);
+    }
+  };
+
+  const handleSpeak = async (index: number, text: string) => {
+    if (speaking === index) { stopSpeaking(); return; }
+    stopSpeaking();
+    setLoadingSpeech(index);
+    try {
+      const buffer = await onSpeak(text);
+      if (!audioContextRef.current) {
+        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+      }
+      const source = audioContextRef.current.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioContextRef.current.destination);
+      source.onended = () => { sourceRef.current = null; setSpeaking(null); };
+      source.start();
+      sourceRef.current = source;
+      setSpeaking(index);
+    } catch (err: any) {
+      console.error(err);
+      setEntries(prev => prev.map((e, i) => i === index ? { ...e, error: err.message || 'Could not read the answer aloud.' } : e));
+    } finally {
+      setLoadingSpeech(null);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-6">
+      <h3 className="flex items-center gap-2 text-sm font-bold text-slate-700 mb-4">
+        <MessageCircleQuestion size={18} className="text-blue-600" /> Ask about this presentation
+      </h3>
+
+      {entries.length > 0 && (
+        <div ref={listRef} className="space-y-4 max-h-80 overflow-y-auto mb-4 pr-1">
+          {entries.map((entry, i) => (
+            <div key={i} className="space-y-2">
+              <p className="ml-auto w-fit max-w-[85%] px-3 py-2 rounded-xl bg-blue-600 text-white text-sm">{entry.question}</p>
+              {entry.answer && (
+                <div className="max-w-[85%] px-3 py-2 rounded-xl bg-slate-100 text-slate-800 text-sm space-y-2">
+                  <p className="whitespace-pre-line leading-relaxed">{entry.answer.answer}</p>
+                  <div className="flex items-center gap-1.5 flex-wrap">
+                    {entry.answer.citations.map(slideIndex => (
+                      <button
+                        key={slideIndex}
+                        onClick={() => onJumpToSlide(slideIndex)}
+                        className="text-[11px] font-bold px-2 py-0.5 rounded-full bg-white border border-slate-200 text-blue-700 hover:bg-blue-50"
+                      >
+                        Slide {slideIndex + 1}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => handleSpeak(i, entry.answer!.answer)}
+                      disabled={loadingSpeech !== null && loadingSpeech !== i}
+                      title={speaking === i ? 'Stop' : 'Read aloud'}
+                      className="ml-auto p-1 text-slate-500 hover:text-blue-600 disabled:opacity-40"
+                    >
+                      {loadingSpeech === i ? <Loader2 size={14} className="animate-spin" /> : speaking === i ? <Square size={14} /> : <Volume2 size={14} />}
+                    </button>
+                  </div>
+                </div>
+              )}
+              {entry.error && <p className="text-xs text-red-600">{entry.error}</p>}
+              {!entry.answer && !entry.error && (
+                <p className="flex items-center gap-2 text-xs text-slate-400"><Loader2 size={12} className="animate-spin" /> Thinking…</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); handleAsk(); }}
+        className="flex gap-2"
+      >
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder='e.g. "What did slide 7 mean by churn?"'
+          className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={asking || !question.trim()}
+          className="flex items-center gap-1.5 px-4 py-2 text-sm font-bold bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300"
+        >
+          {asking ? <Loader2 size={16} className="animate-spin" /> : <Send size={16} />}
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default QAPanel;
@@ -0,0 +1,336 @@
+import React, { useRef, useState } from 'react';
+import { ArrowLeft, ChevronLeft, ChevronRight, Copy, FilePlus, Loader2, ScanText, Trash2, Type, Wand2 } from 'lucide-react';
+import { AspectRatio, SlideAnalysis, SlideData, TitleCard } from '../types';
+import { duplicateSlide, insertSlides, moveSlide, removeSlide, replaceSlide } from '../services/slideOrganizer';
+import { DEFAULT_TITLE_CARD, createTitleCardSlide } from '../services/titleCard';
+import { EMPTY_ANALYSIS, needsAnalysis } from '../services/slideAnalysis';
+
+interface SlideOrganizerProps {
+  slides: SlideData[];
+  aspectRatio: AspectRatio;
+  onChange: (slides: SlideData[]) => void;
+  onParseFiles: (files: File[]) => Promise<SlideData[]>;
+  // Returns the deck with the targets' analyses filled in
+  onAnalyze: (slides: SlideData[], targets: SlideData[], onProgress: (fraction: number) => void) => Promise<SlideData[]>;
+  onBack: () => void;
+  onGenerate: () => void;
+}
+
+const ASPECT_CLASSES: Record<AspectRatio, string> = {
+  '16:9': 'aspect-video',
+  '9:16': 'aspect-[9/16]',
+  '1:1': 'aspect-square',
+  '4:3': 'aspect-[4/3]',
+};
+
+// Key points are edited one per line
+type AnalysisDraft = Omit<SlideAnalysis, 'keyPoints'> & { keyPoints: string };
+
+const toDraft = (analysis: SlideAnalysis = EMPTY_ANALYSIS): AnalysisDraft =>
+  ({ ...analysis, keyPoints: analysis.keyPoints.join('\n') });
+
+const fromDraft = (draft: AnalysisDraft): SlideAnalysis => ({
+  title: draft.title.trim(),
+  keyPoints: draft.keyPoints.split('\n').map(p => p.trim()).filter(Boolean),
+  visuals: draft.visuals.trim(),
+  extractedText: draft.extractedText.trim(),
+});
+
+/**
+ * Thumbnail grid between parsing and scripting: drag (or use the arrows) to
+ * reorder, and remove, duplicate or insert slides. New slides go after the
+ * selected one. Slides can also be read by the vision model here, and what it
+ * read corrected, before any script is written.
+ */
+const SlideOrganizer: React.FC<SlideOrganizerProps> = ({ slides, aspectRatio, onChange, onParseFiles, onAnalyze, onBack, onGenerate }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragFrom, setDragFrom] = useState<number | null>(null);
+  const [dropAt, setDropAt] = useState<number | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cardDraft, setCardDraft] = useState<TitleCard>(DEFAULT_TITLE_CARD);
+  const [analysisDraft, setAnalysisDraft] = useState<AnalysisDraft>(toDraft());
+  const [analyzing, setAnalyzing] = useState<number | null>(null); // progress, 0..1
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const insertAt = selected !== null ? selected + 1 : slides.length;
+  const selectedSlide = selected !== null ? slides[selected] : undefined;
+  const unanalyzed = slides.filter(s => !s.card && !s.analysis);
+
+  const select = (index: number | null) => {
+    setSelected(index);
+    const card = index !== null ? slides[index]?.card : undefined;
+    if (card) setCardDraft(card);
+    setAnalysisDraft(toDraft(index !== null ? slides[index]?.analysis : undefined));
+  };
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+    } catch (err: any) {
+      console.error(err);
+      setError(err.message || 'Could not update the slides.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleMove = (from: number, to: number) => {
+    onChange(moveSlide(slides, from, to));
+    if (selected === from) setSelected(Math.max(0, Math.min(to, slides.length - 1)));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(removeSlide(slides, index));
+    if (selected !== null && selected >= index) select(selected === index ? null : selected - 1);
+  };
+
+  const handleDuplicate = (index: number) => {
+    onChange(duplicateSlide(slides, index));
+    setSelected(index + 1);
+  };
+
+  const handleInsertFiles = (files: File[]) => run(async () => {
+    const parsed = await onParseFiles(files);
+    onChange(insertSlides(slides, insertAt, parsed));
+    setSelected(insertAt + parsed.length - 1);
+  });
+
+  const handleAddCard = () => run(async () => {
+    const slide = await createTitleCardSlide(DEFAULT_TITLE_CARD, aspectRatio);
+    onChange(insertSlides(slides, insertAt, [slide]));
+    setSelected(insertAt);
+    setCardDraft(DEFAULT_TITLE_CARD);
+  });
+
+  const handleUpdateCard = () => run(async () => {
+    if (selected === null || !selectedSlide?.card) return;
+    const slide = await createTitleCardSlide(cardDraft, aspectRatio);
+    onChange(replaceSlide(slides, selected, { ...slide, effects: selectedSlide.effects }));
+  });
+
+  const handleAnalyze = (targets: SlideData[]) => run(async () => {
+    setAnalyzing(0);
+    try {
+      const analyzed = await onAnalyze(slides, targets, setAnalyzing);
+      onChange(analyzed);
+      if (selected !== null) setAnalysisDraft(toDraft(analyzed[selected]?.analysis));
+    } finally {
+      setAnalyzing(null);
+    }
+  });
+
+  const handleSaveAnalysis = () => {
+    if (selected === null || !selectedSlide) return;
+    onChange(replaceSlide(slides, selected, { ...selectedSlide, analysis: fromDraft(analysisDraft) }));
+  };
+
+  const handleClearAnalysis = () => {
+    if (selected === null || !selectedSlide) return;
+    onChange(replaceSlide(slides, selected, { ...selectedSlide, analysis: undefined }));
+    setAnalysisDraft(toDraft());
+  };
+
+  // Dropping on a card puts the dragged slide in that card's place
+  const handleDrop = (index: number) => {
+    if (dragFrom !== null) handleMove(dragFrom, index);
+    setDragFrom(null);
+    setDropAt(null);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="bg-white rounded-2xl border border-slate-200 shadow-sm p-6">
+        <div className="flex items-center justify-between flex-wrap gap-4 mb-6">
+          <div>
+            <h2 className="text-2xl font-bold">Arrange Slides</h2>
+            <p className="text-slate-500 text-sm">
+              {slides.length} slide(s). Drag to reorder; new slides are inserted {selected !== null ? `after slide ${selected + 1}` : 'at the end'}.
+            </p>
+          </div>
+          <div className="flex gap-2 flex-wrap">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".pdf, .pptx, image/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                if (files.length > 0) handleInsertFiles(files);
+                e.target.value = '';
+              }}
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+              className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+            >
+              <FilePlus size={18} /> Insert Files
+            </button>
+            <button
+              onClick={handleAddCard}
+              disabled={busy}
+              className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+            >
+              <Type size={18} /> Add Title Card
+            </button>
+            <button
+              onClick={() => handleAnalyze(unanalyzed)}
+              disabled={busy || unanalyzed.length === 0}
+              title="Read titles, key points, charts and text from the slide images"
+              className="flex items-center gap-2 bg-slate-100 hover:bg-slate-200 disabled:opacity-50 text-slate-700 px-4 py-2.5 rounded-xl font-bold transition-all border border-slate-200"
+            >
+              {analyzing !== null ? <Loader2 size={18} className="animate-spin" /> : <ScanText size={18} />}
+              {analyzing !== null ? `Analyzing… ${Math.round(analyzing * 100)}%` : `Analyze Slides${unanalyzed.length > 0 ? ` (${unanalyzed.length})` : ''}`}
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+          {slides.map((slide, index) => (
+            <div
+              key={index}
+              draggable
+              onDragStart={(e) => { setDragFrom(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => { e.preventDefault(); setDropAt(index); }}
+              onDragLeave={() => setDropAt(prev => prev === index ? null : prev)}
+              onDrop={(e) => { e.preventDefault(); handleDrop(index); }}
+              onDragEnd={() => { setDragFrom(null); setDropAt(null); }}
+              onClick={() => select(selected === index ? null : index)}
+              className={`group relative rounded-xl border-2 bg-slate-50 cursor-grab transition-all
+                ${selected === index ? 'border-blue-500 ring-2 ring-blue-100' : 'border-slate-200 hover:border-slate-300'}
+                ${dropAt === index && dragFrom !== index ? 'border-dashed border-blue-400' : ''}
+                ${dragFrom === index ? 'opacity-40' : ''}`}
+            >
+              <div className={`${ASPECT_CLASSES[aspectRatio]} w-full bg-slate-900 rounded-t-lg overflow-hidden flex items-center justify-center`}>
+                <img src={slide.thumbnail || slide.image} alt={`Slide ${index + 1}`} className="max-w-full max-h-full object-contain" draggable={false} />
+              </div>
+              <div className="px-2 py-1.5 flex items-center justify-between text-xs">
+                <span className="font-bold text-slate-700">
+                  {index + 1}{slide.card && <span className="ml-1 font-medium text-blue-600">Title card</span>}
+                  {slide.analysis
+                    ? <span className="ml-1 font-medium text-emerald-600">Analyzed</span>
+                    : needsAnalysis(slide) && <span className="ml-1 font-medium text-amber-600" title="Little text found; it will be read from the image before scripting">Image only</span>}
+                </span>
+                <div className="flex items-center gap-0.5 text-slate-400">
+                  <button onClick={(e) => { e.stopPropagation(); handleMove(index, index - 1); }} disabled={index === 0} title="Move left" className="p-1 hover:text-slate-700 disabled:opacity-30"><ChevronLeft size={14} /></button>
+                  <button onClick={(e) => { e.stopPropagation(); handleMove(index, index + 1); }} disabled={index === slides.length - 1} title="Move right" className="p-1 hover:text-slate-700 disabled:opacity-30"><ChevronRight size={14} /></button>
+                  <button onClick={(e) => { e.stopPropagation(); handleDuplicate(index); }} title="Duplicate" className="p-1 hover:text-slate-700"><Copy size={14} /></button>
+                  <button onClick={(e) => { e.stopPropagation(); handleRemove(index); }} title="Remove" className="p-1 hover:text-red-600"><Trash2 size={14} /></button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {selectedSlide?.card && (
+          <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-3">
+            <h3 className="text-sm font-bold text-slate-700">Title card {selected! + 1}</h3>
+            <input
+              type="text"
+              value={cardDraft.title}
+              onChange={(e) => setCardDraft(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="Title"
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={cardDraft.subtitle}
+              onChange={(e) => setCardDraft(prev => ({ ...prev, subtitle: e.target.value }))}
+              placeholder="Subtitle (optional)"
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={handleUpdateCard}
+              disabled={busy || !cardDraft.title.trim()}
+              className="px-4 py-2 text-sm font-bold bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300"
+            >
+              Update Card
+            </button>
+          </div>
+        )}
+
+        {selectedSlide && !selectedSlide.card && (
+          <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-xl space-y-3">
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <h3 className="text-sm font-bold text-slate-700">
+                Slide {selected! + 1} content {!selectedSlide.analysis && <span className="font-medium text-slate-400">(not analyzed yet)</span>}
+              </h3>
+              <button
+                onClick={() => handleAnalyze([selectedSlide])}
+                disabled={busy}
+                className="flex items-center gap-1.5 text-xs font-bold text-blue-600 hover:text-blue-700 disabled:opacity-50"
+              >
+                <ScanText size={14} /> {selectedSlide.analysis ? 'Analyze again' : 'Analyze'}
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">The script is written from this along with the slide text. Correct anything the model misread.</p>
+            <input
+              type="text"
+              value={analysisDraft.title}
+              onChange={(e) => setAnalysisDraft(prev => ({ ...prev, title: e.target.value }))}
+              placeholder="Title"
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <textarea
+              value={analysisDraft.keyPoints}
+              onChange={(e) => setAnalysisDraft(prev => ({ ...prev, keyPoints: e.target.value }))}
+              placeholder="Key points, one per line"
+              rows={4}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <textarea
+              value={analysisDraft.visuals}
+              onChange={(e) => setAnalysisDraft(prev => ({ ...prev, visuals: e.target.value }))}
+              placeholder="Charts, tables and diagrams, in words"
+              rows={2}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <textarea
+              value={analysisDraft.extractedText}
+              onChange={(e) => setAnalysisDraft(prev => ({ ...prev, extractedText: e.target.value }))}
+              placeholder="Text on the slide"
+              rows={3}
+              className="w-full px-3 py-2 bg-white border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={handleSaveAnalysis}
+                disabled={busy}
+                className="px-4 py-2 text-sm font-bold bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-slate-300"
+              >
+                Save Content
+              </button>
+              {selectedSlide.analysis && (
+                <button onClick={handleClearAnalysis} disabled={busy} className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-red-600">
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4">
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-slate-900 font-medium">
+          <ArrowLeft size={18} /> Back to Settings
+        </button>
+        <button
+          onClick={onGenerate}
+          disabled={busy || slides.length === 0}
+          className="flex items-center gap-2 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-slate-300 text-white font-bold rounded-xl shadow-lg shadow-blue-500/25 transition-all"
+        >
+          {busy ? <Loader2 size={18} className="animate-spin" /> : <Wand2 size={18} />}
+          Generate Narration
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SlideOrganizer;
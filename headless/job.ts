@@ -0,0 +1,66 @@
+import type { ProjectSettings, SlideData } from '../types';
+
+/**
+ * The contract between the CLI (Node) and the headless render page (browser).
+ * Everything crossing the boundary is plain JSON; binary data travels as base64.
+ */
+
+export interface HeadlessFile {
+  name: string;
+  type: string; // MIME type
+  base64: string;
+}
+
+export interface HeadlessOutputs {
+  video: boolean;
+  multiTrack: boolean; // one video carrying every language instead of one per language
+  audio: boolean; // narration mix, in the project's audio export format
+  scripts: boolean; // JSON with every language's scripts
+  transcript: boolean;
+  subtitles: ('srt' | 'vtt')[];
+  chapters: boolean; // WebVTT chapters, YouTube chapter list and JSON timeline manifest
+  project: boolean; // .slidestream bundle the app can open and keep editing
+}
+
+export interface HeadlessJob {
+  name: string; // base name of the written files
+  files: HeadlessFile[];
+  slides?: SlideData[]; // already parsed (and arranged) slides, used instead of `files`
+  settings: Partial<ProjectSettings>;
+  credentials: { geminiKey: string; endpointKey: string };
+  music?: HeadlessFile; // used when settings.music.source is 'upload'
+  outputs?: Partial<HeadlessOutputs>;
+}
+
+export const DEFAULT_HEADLESS_OUTPUTS: HeadlessOutputs = {
+  video: true,
+  multiTrack: false,
+  audio: true,
+  scripts: true,
+  transcript: false,
+  subtitles: ['srt', 'vtt'],
+  chapters: false,
+  project: false,
+};
+
+// Functions the CLI exposes on the page for the render to report back through
+export const HEADLESS_WRITE = '__slidestreamWrite';
+export const HEADLESS_PROGRESS = '__slidestreamProgress';
+
+// Output files are streamed back in base64 chunks of this many bytes (before encoding)
+export const HEADLESS_CHUNK_BYTES = 6 * 1024 * 1024;
+
+export interface HeadlessBridge {
+  [HEADLESS_WRITE]: (name: string, base64: string, append: boolean) => Promise<void>;
+  [HEADLESS_PROGRESS]: (message: string, percent: number) => Promise<void>;
+}
+
+export interface HeadlessRenderer {
+  render: (job: HeadlessJob) => Promise<string[]>; // names of the written files
+}
+
+declare global {
+  interface Window extends HeadlessBridge {
+    slidestream: HeadlessRenderer;
+  }
+}
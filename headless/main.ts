@@ -0,0 +1,192 @@
+import { AppLanguage, NarrationSegment, ProjectSettings } from '../types';
+import { DEFAULT_PROJECT_SETTINGS, createSnapshot, exportProjectBundle, PROJECT_FILE_EXTENSION } from '../services/project';
+import { runPipeline, generateNarration, buildSubtitleFile, buildChapterFile, ChapterFormat } from '../services/pipeline';
+import { createScriptProvider, getScriptProviderInfo } from '../services/scriptProviders';
+import { createSpeechProvider } from '../services/speechProviders';
+import { MusicBed, generateBundledLoop } from '../services/music';
+import { exportVideo, ExportNarrationTrack } from '../services/videoExport';
+import { exportNarrationAudio, getAudioFormatInfo } from '../services/audioExport';
+import { buildTranscript } from '../services/dialogue';
+import { DEFAULT_HEADLESS_OUTPUTS, HEADLESS_CHUNK_BYTES, HEADLESS_PROGRESS, HEADLESS_WRITE, HeadlessFile, HeadlessJob } from './job';
+
+/**
+ * Entry point of headless.html: runs the whole pipeline for one job without any
+ * UI and streams every output file back to the CLI through the exposed bridge.
+ */
+
+const toFile = (file: HeadlessFile): File => {
+  const binary = atob(file.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new File([bytes], file.name, { type: file.type });
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+};
+
+const writeOutput = async (name: string, blob: Blob) => {
+  if (blob.size === 0) {
+    await window[HEADLESS_WRITE](name, '', false);
+    return;
+  }
+  for (let offset = 0; offset < blob.size; offset += HEADLESS_CHUNK_BYTES) {
+    const chunk = blob.slice(offset, offset + HEADLESS_CHUNK_BYTES);
+    await window[HEADLESS_WRITE](name, await blobToBase64(chunk), offset > 0);
+  }
+};
+
+const reportProgress = (message: string, percent: number) => window[HEADLESS_PROGRESS](message, percent);
+
+const loadMusic = async (job: HeadlessJob, settings: ProjectSettings, ctx: BaseAudioContext): Promise<MusicBed | undefined> => {
+  const source = settings.music.source;
+  if (source === 'none') return undefined;
+  if (source === 'upload') {
+    if (!job.music) throw new Error("Music source is 'upload' but no music file was given.");
+    const buffer = await ctx.decodeAudioData(await toFile(job.music).arrayBuffer());
+    return { settings: settings.music, buffer };
+  }
+  return { settings: settings.music, buffer: await generateBundledLoop(source) };
+};
+
+/**
+ * Job settings over the defaults. Configs may set just a few fields of any
+ * nested group, so each group is merged with its own defaults; a provider
+ * picked without a model gets that provider's default model.
+ */
+const mergeSettings = (partial: Partial<ProjectSettings>): ProjectSettings => {
+  const d = DEFAULT_PROJECT_SETTINGS;
+  const scriptProvider = { ...d.scriptProvider, ...partial.scriptProvider };
+  if (!partial.scriptProvider?.model) scriptProvider.model = getScriptProviderInfo(scriptProvider.id).defaultModel;
+  return {
+    ...d,
+    ...partial,
+    dialogue: {
+      mode: partial.dialogue?.mode ?? d.dialogue.mode,
+      hosts: [
+        { ...d.dialogue.hosts[0], ...partial.dialogue?.hosts?.[0] },
+        { ...d.dialogue.hosts[1], ...partial.dialogue?.hosts?.[1] },
+      ],
+    },
+    durationFit: { ...d.durationFit, ...partial.durationFit },
+    captionStyle: { ...d.captionStyle, ...partial.captionStyle },
+    effects: { ...d.effects, ...partial.effects },
+    music: { ...d.music, ...partial.music },
+    audioExport: { ...d.audioExport, ...partial.audioExport },
+    scriptProvider,
+    speechProvider: { ...d.speechProvider, ...partial.speechProvider },
+  };
+};
+
+const render = async (job: HeadlessJob): Promise<string[]> => {
+  const settings = mergeSettings(job.settings);
+  const outputs = { ...DEFAULT_HEADLESS_OUTPUTS, ...job.outputs };
+  // Nothing is played back, so an offline context is enough to create and decode buffers
+  const ctx = new OfflineAudioContext(1, 1, 48000);
+  const providers = {
+    script: createScriptProvider(settings.scriptProvider, job.credentials),
+    speech: createSpeechProvider(settings.speechProvider, job.credentials),
+  };
+
+  let lastStep = '';
+  const hooks = {
+    onStep: (step: string, progress: number) => { lastStep = step; reportProgress(step, progress); },
+    onNarrations: (_: unknown, progress: number) => reportProgress(lastStep, progress),
+    onTracks: (_: unknown, progress: number) => reportProgress(lastStep, progress),
+  };
+  const { slides, narrations, tracks } = job.slides
+    ? await generateNarration(job.slides, settings, providers, ctx, hooks)
+    : await runPipeline(job.files.map(toFile), settings, providers, ctx, hooks);
+
+  const allTracks: ExportNarrationTrack[] = [{ language: settings.language, narrations }, ...tracks];
+  // The primary language keeps the plain name; translations get a language suffix
+  const fileName = (language: AppLanguage | null, ext: string) =>
+    language && language !== settings.language ? `${job.name}.${language}.${ext}` : `${job.name}.${ext}`;
+  const written: string[] = [];
+  const write = async (name: string, blob: Blob) => {
+    await writeOutput(name, blob);
+    written.push(name);
+  };
+
+  if (outputs.scripts) {
+    const seconds = (n: NarrationSegment) => n.audioBuffer ? Number(n.audioBuffer.duration.toFixed(2)) : null;
+    const scripts = {
+      duration: settings.duration,
+      language: settings.language,
+      slides: slides.map(s => ({ index: s.index, text: s.text, notes: s.notes })),
+      tracks: allTracks.map(t => ({
+        language: t.language,
+        narrations: t.narrations.map(n => ({ slideIndex: n.slideIndex, script: n.script, seconds: seconds(n) })),
+      })),
+    };
+    await write(`${job.name}.scripts.json`, new Blob([JSON.stringify(scripts, null, 2)], { type: 'application/json' }));
+  }
+
+  const music = await loadMusic(job, settings, ctx);
+
+  if (outputs.project) {
+    const musicUpload = settings.music.source === 'upload' && music ? { name: job.music!.name, buffer: music.buffer } : null;
+    const snapshot = createSnapshot({ ...settings, slides, narrations, tracks, musicUpload });
+    await write(`${job.name}${PROJECT_FILE_EXTENSION}`, await exportProjectBundle(snapshot, ctx));
+  }
+
+  for (const track of allTracks) {
+    if (outputs.transcript) {
+      const text = buildTranscript(track.narrations, settings.dialogue);
+      if (text) await write(fileName(track.language, 'txt'), new Blob([text], { type: 'text/plain' }));
+    }
+    for (const format of outputs.subtitles) {
+      const text = buildSubtitleFile(slides, track.narrations, format, settings.dialogue);
+      if (text) await write(fileName(track.language, format), new Blob([text], { type: 'text/plain' }));
+    }
+    if (outputs.chapters) {
+      const files: [ChapterFormat, string][] = [['vtt', 'chapters.vtt'], ['youtube', 'youtube.txt'], ['json', 'timeline.json']];
+      for (const [format, ext] of files) {
+        const text = buildChapterFile(slides, track.narrations, format, track.language);
+        if (text) await write(fileName(track.language, ext), new Blob([text], { type: 'text/plain' }));
+      }
+    }
+    if (outputs.audio) {
+      reportProgress(`mixing ${track.language}`, 0);
+      const blob = await exportNarrationAudio(slides, track.narrations, settings.audioExport, music);
+      if (blob) await write(fileName(track.language, getAudioFormatInfo(settings.audioExport.format).extension), blob);
+    }
+  }
+
+  if (outputs.video) {
+    const jobs = outputs.multiTrack && allTracks.length > 1
+      ? [{ tracks: allTracks, language: null }]
+      : allTracks.map(t => ({ tracks: [t], language: t.language }));
+    for (const videoJob of jobs) {
+      const label = videoJob.language || 'multitrack';
+      let lastPercent = -1;
+      const blob = await exportVideo(slides, videoJob.tracks, {
+        container: settings.videoContainer,
+        aspectRatio: settings.aspectRatio,
+        resolutionScale: settings.resolutionScale,
+        captionStyle: settings.captionStyle,
+        effects: settings.effects,
+        music,
+        dialogue: settings.dialogue,
+        onProgress: (frame, totalFrames) => {
+          const percent = Math.floor((frame / totalFrames) * 100);
+          if (percent !== lastPercent) {
+            lastPercent = percent;
+            reportProgress(`encoding ${label}`, percent);
+          }
+        },
+      });
+      await write(fileName(videoJob.language, settings.videoContainer), blob);
+    }
+  }
+
+  return written;
+};
+
+window.slidestream = { render };
@@ -0,0 +1,115 @@
+import { createServer, Server } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import puppeteer from 'puppeteer-core';
+import { HEADLESS_PROGRESS, HEADLESS_WRITE, HeadlessJob } from './job.js';
+
+/**
+ * Node side of the headless renderer, shared by the CLI and the render server:
+ * serves the built headless page, opens it in Chrome and runs one job in it.
+ */
+
+export interface HeadlessRunOptions {
+  executablePath: string;
+  onProgress?: (message: string, percent: number) => void;
+  onFile: (name: string, data: Buffer, append: boolean) => Promise<void>;
+  signal?: AbortSignal; // closes the browser, failing the run
+}
+
+export const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.txt': 'text/plain',
+  '.srt': 'text/plain',
+  '.vtt': 'text/vtt',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.slidestream': 'application/zip',
+};
+
+// dist-cli/headless/runner.js -> <repo>/dist
+export const DIST_DIR = fileURLToPath(new URL('../../dist/', import.meta.url));
+
+export const mimeFor = (file: string): string => MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+
+export const assertHeadlessBuild = async () => {
+  const page = path.join(DIST_DIR, 'headless.html');
+  try {
+    await stat(page);
+  } catch {
+    throw new Error(`${page} not found. Run "npm run build" first.`);
+  }
+};
+
+const serveDist = (): Promise<Server> => {
+  const server = createServer(async (req, res) => {
+    const urlPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+    const file = path.join(DIST_DIR, path.normalize(urlPath));
+    if (!file.startsWith(DIST_DIR)) {
+      res.writeHead(403).end();
+      return;
+    }
+    try {
+      const body = await readFile(file);
+      res.writeHead(200, { 'Content-Type': mimeFor(file) }).end(body);
+    } catch {
+      res.writeHead(404).end();
+    }
+  });
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve(server));
+  });
+};
+
+/**
+ * Renders one job and resolves with the names of the files handed to `onFile`.
+ */
+export const runHeadlessJob = async (job: HeadlessJob, options: HeadlessRunOptions): Promise<string[]> => {
+  await assertHeadlessBuild();
+  options.signal?.throwIfAborted();
+
+  const server = await serveDist();
+  // Rendering can take far longer than puppeteer's default protocol timeout, so there is none
+  const browser = await puppeteer.launch({ executablePath: options.executablePath, protocolTimeout: 0 });
+  const abort = () => { browser.close().catch(() => {}); };
+  options.signal?.addEventListener('abort', abort);
+  try {
+    const page = await browser.newPage();
+    page.on('pageerror', err => console.error(err));
+
+    await page.exposeFunction(HEADLESS_PROGRESS, (message: string, percent: number) => {
+      options.onProgress?.(message, percent);
+    });
+    await page.exposeFunction(HEADLESS_WRITE, (name: string, base64: string, append: boolean) =>
+      options.onFile(path.basename(name), Buffer.from(base64, 'base64'), append));
+
+    const { port } = server.address() as AddressInfo;
+    await page.goto(`http://127.0.0.1:${port}/headless.html`, { waitUntil: 'load' });
+    await page.waitForFunction('window.slidestream !== undefined');
+    return await page.evaluate(job => window.slidestream.render(job), job);
+  } catch (err) {
+    options.signal?.throwIfAborted();
+    throw err;
+  } finally {
+    options.signal?.removeEventListener('abort', abort);
+    await browser.close().catch(() => {});
+    server.close();
+  }
+};
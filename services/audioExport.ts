@@ -0,0 +1,87 @@
+import { AudioBufferSource, BufferTarget, Mp3OutputFormat, OggOutputFormat, Output, canEncodeAudio } from 'mediabunny';
+import { registerMp3Encoder } from '@mediabunny/mp3-encoder';
+import { AudioExportSettings, AudioFormat, NarrationSegment, SlideData } from '../types';
+import { audioBufferToWav } from './audioUtils';
+import { renderMasteredAudio } from './mastering';
+import { renderNarrationAudio } from './pipeline';
+import { MusicBed } from './music';
+
+export const DEFAULT_AUDIO_EXPORT: AudioExportSettings = {
+  mastering: true,
+  targetLufs: -16,
+  trimSilence: true,
+  gap: 0.5,
+  crossfade: 0.03,
+  ceiling: -1,
+  format: 'mp3',
+  bitrate: 128,
+};
+
+export const AUDIO_FORMAT_OPTIONS: { value: AudioFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'mp3', label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  { value: 'ogg', label: 'Opus (OGG)', extension: 'ogg', mimeType: 'audio/ogg' },
+  { value: 'wav', label: 'WAV (uncompressed)', extension: 'wav', mimeType: 'audio/wav' },
+];
+
+export const AUDIO_BITRATES = [64, 96, 128, 192, 256, 320];
+
+// Opus only runs at 48 kHz; narration voiced at other rates is resampled
+const OPUS_SAMPLE_RATE = 48000;
+
+export const getAudioFormatInfo = (format: AudioFormat) =>
+  AUDIO_FORMAT_OPTIONS.find(o => o.value === format) || AUDIO_FORMAT_OPTIONS[0];
+
+let mp3EncoderReady: Promise<void> | null = null;
+
+// Browsers do not encode MP3 natively, so the LAME build is registered the first time it is needed
+const ensureMp3Encoder = () => {
+  if (!mp3EncoderReady) {
+    mp3EncoderReady = canEncodeAudio('mp3').then(native => { if (!native) registerMp3Encoder(); });
+  }
+  return mp3EncoderReady;
+};
+
+/** Encodes a mixed track in the chosen format; bitrate applies to MP3 and Opus. */
+export const encodeAudio = async (buffer: AudioBuffer, settings: Pick<AudioExportSettings, 'format' | 'bitrate'>): Promise<Blob> => {
+  if (settings.format === 'wav') return audioBufferToWav(buffer);
+
+  const info = getAudioFormatInfo(settings.format);
+  if (settings.format === 'mp3') {
+    await ensureMp3Encoder();
+  } else if (!(await canEncodeAudio('opus', { numberOfChannels: buffer.numberOfChannels, sampleRate: OPUS_SAMPLE_RATE }))) {
+    throw new Error("이 브라우저는 Opus 인코딩을 지원하지 않습니다. MP3나 WAV로 저장하세요.");
+  }
+
+  const target = new BufferTarget();
+  const output = new Output({
+    format: settings.format === 'mp3' ? new Mp3OutputFormat() : new OggOutputFormat(),
+    target,
+  });
+  const source = new AudioBufferSource({
+    codec: settings.format === 'mp3' ? 'mp3' : 'opus',
+    bitrate: settings.bitrate * 1000,
+    transform: settings.format === 'ogg' ? { sampleRate: OPUS_SAMPLE_RATE } : undefined,
+  });
+  output.addAudioTrack(source);
+  await output.start();
+  await source.add(buffer);
+  await output.finalize();
+  return new Blob([target.buffer!], { type: info.mimeType });
+};
+
+/**
+ * One narration track as a finished audio file: mastered when the settings
+ * ask for it, mixed with the music bed and encoded. Null when nothing has
+ * been voiced.
+ */
+export const exportNarrationAudio = async (
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  settings: AudioExportSettings,
+  music?: MusicBed
+): Promise<Blob | null> => {
+  const mixed = settings.mastering
+    ? await renderMasteredAudio(slides, narrations, settings, music)
+    : await renderNarrationAudio(slides, narrations, music);
+  return mixed ? encodeAudio(mixed, settings) : null;
+};
@@ -0,0 +1,30 @@
+import { TimelineEntry, getTimelineDuration } from './timeline';
+import { MusicBed, scheduleMusicBed } from './music';
+
+/**
+ * Mixes every narration segment at its timeline position, plus the ducked
+ * music bed when one is given, faster than real time.
+ */
+export const renderPresentationAudio = async (
+  timeline: TimelineEntry[],
+  sampleRate: number,
+  numChannels: number,
+  music?: MusicBed
+): Promise<AudioBuffer> => {
+  const totalFrames = Math.max(1, Math.ceil(getTimelineDuration(timeline) * sampleRate));
+  const ctx = new OfflineAudioContext(numChannels, totalFrames, sampleRate);
+
+  for (const entry of timeline) {
+    if (!entry.narration?.audioBuffer) continue;
+    const source = ctx.createBufferSource();
+    source.buffer = entry.narration.audioBuffer;
+    source.connect(ctx.destination);
+    source.start(entry.start);
+  }
+
+  if (music && music.settings.source !== 'none') {
+    scheduleMusicBed(ctx, ctx.destination, music.buffer, timeline, music.settings);
+  }
+
+  return ctx.startRendering();
+};
@@ -1,3 +1,6 @@
+import { WordTiming } from '../types';
+import { attachWordTimings, getWordTimings } from './speech';
+
 
 export function audioBufferToWav(buffer: AudioBuffer): Blob {
   const numOfChan = buffer.numberOfChannels;
@@ -66,3 +69,133 @@ export function blobToBase64(blob: Blob): Promise<string> {
     reader.readAsDataURL(blob);
   });
 }
+
+/**
+ * Parses a 16-bit PCM or 32-bit float WAV file (as written by audioBufferToWav
+ * or returned by most TTS servers) into an AudioBuffer without resampling it
+ * to the context's rate.
+ */
+export function wavToAudioBuffer(data: ArrayBuffer, ctx: BaseAudioContext): AudioBuffer {
+  const view = new DataView(data);
+  if (view.getUint32(0, false) !== 0x52494646 || view.getUint32(8, false) !== 0x57415645) {
+    throw new Error("Not a RIFF/WAVE file");
+  }
+
+  let numChannels = 1;
+  let sampleRate = 24000;
+  let bitsPerSample = 16;
+  let pos = 12;
+
+  while (pos + 8 <= view.byteLength) {
+    const chunkId = view.getUint32(pos, false);
+    const chunkSize = view.getUint32(pos + 4, true);
+    const body = pos + 8;
+
+    if (chunkId === 0x666d7420) { // "fmt "
+      numChannels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+    } else if (chunkId === 0x64617461) { // "data"
+      if (bitsPerSample !== 16 && bitsPerSample !== 32) throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+      const bytesPerSample = bitsPerSample / 8;
+      // Some servers stream WAV with a 0xFFFFFFFF placeholder size
+      const size = Math.min(chunkSize, view.byteLength - body);
+      const frameCount = Math.floor(size / (bytesPerSample * numChannels));
+      const buffer = ctx.createBuffer(numChannels, Math.max(frameCount, 1), sampleRate);
+      for (let channel = 0; channel < numChannels; channel++) {
+        const channelData = buffer.getChannelData(channel);
+        for (let i = 0; i < frameCount; i++) {
+          const at = body + (i * numChannels + channel) * bytesPerSample;
+          channelData[i] = bitsPerSample === 16 ? view.getInt16(at, true) / 32768.0 : view.getFloat32(at, true);
+        }
+      }
+      return buffer;
+    }
+    pos = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+/**
+ * Changes the tempo of a buffer without changing its pitch (WSOLA).
+ * `rate` > 1 speeds speech up (shorter output), < 1 slows it down; meant for
+ * mild corrections of a few percent.
+ */
+export function timeStretchBuffer(buffer: AudioBuffer, rate: number, ctx: BaseAudioContext): AudioBuffer {
+  const frameSize = Math.round(buffer.sampleRate * 0.04) & ~1; // ~40 ms windows
+  const hop = frameSize / 2;
+  const searchRange = Math.round(hop / 2);
+  const corrLength = hop;
+  const outLength = Math.max(1, Math.floor(buffer.length / rate));
+  const out = ctx.createBuffer(buffer.numberOfChannels, outLength, buffer.sampleRate);
+
+  const window = new Float32Array(frameSize);
+  for (let i = 0; i < frameSize; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / frameSize);
+
+  // Pick analysis positions once (on a mono mixdown) so all channels stay aligned
+  const mono = buffer.getChannelData(0);
+  const positions: number[] = [];
+  let previous = 0;
+  for (let outPos = 0; outPos < outLength; outPos += hop) {
+    const nominal = Math.round(outPos * rate);
+    if (outPos === 0) { positions.push(0); previous = 0; continue; }
+    // Find the offset whose waveform best continues the previously copied frame
+    const natural = previous + hop;
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let d = -searchRange; d <= searchRange; d++) {
+      const candidate = nominal + d;
+      if (candidate < 0 || candidate + corrLength >= buffer.length || natural + corrLength >= buffer.length) continue;
+      let score = 0;
+      for (let i = 0; i < corrLength; i += 2) score += mono[natural + i] * mono[candidate + i];
+      if (score > bestScore) { bestScore = score; best = candidate; }
+    }
+    positions.push(Math.max(0, Math.min(best, buffer.length - 1)));
+    previous = positions[positions.length - 1];
+  }
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const input = buffer.getChannelData(channel);
+    const output = out.getChannelData(channel);
+    const norm = new Float32Array(outLength);
+    positions.forEach((pos, k) => {
+      const outPos = k * hop;
+      for (let i = 0; i < frameSize && outPos + i < outLength && pos + i < input.length; i++) {
+        output[outPos + i] += input[pos + i] * window[i];
+        norm[outPos + i] += window[i];
+      }
+    });
+    for (let i = 0; i < outLength; i++) {
+      if (norm[i] > 1e-3) output[i] /= norm[i];
+    }
+  }
+  return attachWordTimings(out, getWordTimings(buffer)?.map(w => ({ ...w, start: w.start / rate, end: w.end / rate })));
+}
+
+/**
+ * Joins buffers end to end; a number in `parts` inserts that many seconds of
+ * silence. Mono parts are copied to every channel of a wider output.
+ */
+export function concatAudioBuffers(parts: (AudioBuffer | number)[], ctx: BaseAudioContext): AudioBuffer {
+  const buffers = parts.filter((p): p is AudioBuffer => typeof p !== 'number');
+  const sampleRate = buffers[0]?.sampleRate || ctx.sampleRate;
+  const numChannels = Math.max(1, ...buffers.map(b => b.numberOfChannels));
+  const lengths = parts.map(p => typeof p === 'number' ? Math.round(p * sampleRate) : p.length);
+  const out = ctx.createBuffer(numChannels, Math.max(lengths.reduce((a, b) => a + b, 0), 1), sampleRate);
+
+  let offset = 0;
+  const words: WordTiming[] = [];
+  parts.forEach((part, i) => {
+    if (typeof part !== 'number') {
+      for (let c = 0; c < numChannels; c++) {
+        out.getChannelData(c).set(part.getChannelData(Math.min(c, part.numberOfChannels - 1)), offset);
+      }
+      const shift = offset / sampleRate;
+      getWordTimings(part)?.forEach(w => words.push({ ...w, start: w.start + shift, end: w.end + shift }));
+    }
+    offset += lengths[i];
+  });
+  // Timings covering only some of the parts would read as silence elsewhere
+  return attachWordTimings(out, buffers.every(b => getWordTimings(b)) ? words : undefined);
+}
@@ -0,0 +1,110 @@
+import { AppLanguage, SlideData } from '../types';
+import { TimelineEntry, getTimelineDuration } from './timeline';
+import { formatTimestamp } from './subtitles';
+import { stripMarkup } from './speechMarkup';
+import { getSlideImagePath } from './project';
+
+/**
+ * One chapter per slide, timed like the video: WebVTT chapter tracks for
+ * players and LMSs, the "00:00 Title" list YouTube reads from a description,
+ * and a JSON manifest of the whole timeline for other tools.
+ */
+
+export interface Chapter {
+  slideIndex: number;
+  title: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface TimelineManifest {
+  version: 1;
+  language: AppLanguage;
+  duration: number; // seconds
+  slides: {
+    index: number;
+    title: string;
+    start: number;
+    end: number;
+    script: string; // narration without markup
+    image: string; // path of the slide image in the project bundle
+  }[];
+}
+
+const MAX_TITLE_CHARS = 80;
+// YouTube ignores chapter lists with fewer chapters or shorter ones than this
+const YOUTUBE_MIN_CHAPTERS = 3;
+const YOUTUBE_MIN_CHAPTER_SECONDS = 10;
+
+// The text parseDeck gives image uploads
+const IMAGE_PLACEHOLDER = /^Image: /;
+
+/**
+ * A slide's chapter title: the title the vision pass read, the title card's
+ * title, or else the first line of its text. Slides with none are numbered.
+ */
+export const getSlideTitle = (slide: SlideData): string => {
+  const firstLine = slide.text.split('\n').map(l => l.trim()).find(l => l && !IMAGE_PLACEHOLDER.test(l));
+  const title = (slide.analysis?.title || slide.card?.title || firstLine || '').replace(/\s+/g, ' ').trim();
+  if (!title) return `Slide ${slide.index + 1}`;
+  return title.length > MAX_TITLE_CHARS ? `${title.slice(0, MAX_TITLE_CHARS - 1).trimEnd()}…` : title;
+};
+
+export const buildChapters = (timeline: TimelineEntry[]): Chapter[] =>
+  timeline.map(entry => ({
+    slideIndex: entry.slide.index,
+    title: getSlideTitle(entry.slide),
+    start: entry.start,
+    end: entry.start + entry.duration,
+  }));
+
+export const toWebVttChapters = (chapters: Chapter[]): string =>
+  `WEBVTT\n\n${chapters.map((c, i) => `Chapter ${i + 1}\n${formatTimestamp(c.start, '.')} --> ${formatTimestamp(c.end, '.')}\n${c.title}\n`).join('\n')}`;
+
+// mm:ss offsets, with the hours in front once the video passes an hour
+const formatYouTubeTime = (seconds: number): string => {
+  const whole = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${String(m).padStart(2, '0')}:${s}`;
+};
+
+/**
+ * The chapter list for a YouTube description. A chapter shorter than
+ * YouTube's minimum takes in the slides after it until it is long enough;
+ * returns null when fewer chapters than YouTube accepts are left.
+ */
+export const toYouTubeChapters = (chapters: Chapter[]): string | null => {
+  const kept: Chapter[] = [];
+  for (const chapter of chapters) {
+    const last = kept[kept.length - 1];
+    if (last && last.end - last.start < YOUTUBE_MIN_CHAPTER_SECONDS) last.end = chapter.end;
+    else kept.push({ ...chapter });
+  }
+  // A short last chapter joins the one before it
+  const tail = kept[kept.length - 1];
+  if (kept.length > 1 && tail.end - tail.start < YOUTUBE_MIN_CHAPTER_SECONDS) {
+    kept.pop();
+    kept[kept.length - 1].end = tail.end;
+  }
+  if (kept.length < YOUTUBE_MIN_CHAPTERS) return null;
+  // The first chapter has to start at 0:00
+  return kept.map((c, i) => `${formatYouTubeTime(i === 0 ? 0 : c.start)} ${c.title}`).join('\n') + '\n';
+};
+
+const roundSeconds = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+export const buildTimelineManifest = (timeline: TimelineEntry[], language: AppLanguage): TimelineManifest => ({
+  version: 1,
+  language,
+  duration: roundSeconds(getTimelineDuration(timeline)),
+  slides: timeline.map(entry => ({
+    index: entry.slide.index,
+    title: getSlideTitle(entry.slide),
+    start: roundSeconds(entry.start),
+    end: roundSeconds(entry.start + entry.duration),
+    script: entry.narration ? stripMarkup(entry.narration.script) : '',
+    image: getSlideImagePath(entry.slide),
+  })),
+});
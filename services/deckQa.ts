@@ -0,0 +1,133 @@
+import { NarrationSegment, SlideData } from '../types';
+import { stripMarkup } from './speechMarkup';
+import { describeSlideAnalysis } from './scripting';
+
+/**
+ * Questions about a finished presentation, answered from the deck itself:
+ * every slide's text and narration goes along, plus the images of the slides
+ * the question most likely concerns. Answers cite slides by number.
+ */
+
+export interface QuestionTurn {
+  question: string;
+  answer: string;
+}
+
+export interface QuestionRequest {
+  question: string;
+  slides: SlideData[]; // every slide, for its text
+  narrations: { slideIndex: number; script: string }[];
+  focusSlides: SlideData[]; // slides whose images are sent too
+  history?: QuestionTurn[];
+}
+
+export interface DeckAnswer {
+  answer: string;
+  citations: number[]; // slide indices (0-based)
+}
+
+// Images sent with a question; the text of every slide goes regardless
+export const MAX_FOCUS_SLIDES = 6;
+// Earlier questions and answers kept for follow-ups
+export const MAX_HISTORY_TURNS = 4;
+
+const SLIDE_REFERENCE = /(?:slide|슬라이드|スライド|幻灯片|diapositiva|diapositive|folie)\s*#?\s*(\d+)|(\d+)\s*(?:번\s*)?(?:슬라이드|枚目)/gi;
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) || []);
+
+/** Slide numbers the text names outright ("slide 7", "7번 슬라이드"), as 0-based indices. */
+export const findSlideReferences = (text: string, slideCount: number): number[] => {
+  const indices = new Set<number>();
+  for (const match of text.matchAll(SLIDE_REFERENCE)) {
+    const number = Number(match[1] ?? match[2]);
+    if (number >= 1 && number <= slideCount) indices.add(number - 1);
+  }
+  return [...indices];
+};
+
+/**
+ * Picks the slides to show the model: the ones the question names, then the
+ * ones sharing the most words with it (text and narration alike).
+ */
+export const selectFocusSlides = (
+  question: string,
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  limit: number = MAX_FOCUS_SLIDES
+): SlideData[] => {
+  const named = findSlideReferences(question, slides.length);
+  const terms = new Set(tokenize(question));
+  const scored = slides
+    .filter(s => !named.includes(s.index))
+    .map(slide => {
+      const script = narrations.find(n => n.slideIndex === slide.index)?.script || '';
+      const analysis = slide.analysis ? describeSlideAnalysis(slide.analysis) : '';
+      const words = tokenize(`${slide.text} ${analysis} ${slide.notes || ''} ${script}`);
+      const score = words.reduce((acc, w) => acc + (terms.has(w) ? 1 : 0), 0) / Math.sqrt(words.length + 1);
+      return { slide, score };
+    })
+    .filter(s => s.score > 0)
+    .sort((a, b) => b.score - a.score);
+  return [
+    ...slides.filter(s => named.includes(s.index)),
+    ...scored.map(s => s.slide),
+  ].slice(0, limit);
+};
+
+export const buildQuestionPrompt = (request: QuestionRequest): string => {
+  const deck = request.slides.map(slide => {
+    const script = request.narrations.find(n => n.slideIndex === slide.index)?.script;
+    return [
+      `Slide ${slide.index + 1}:`,
+      `  Text: ${slide.text.trim() || '(none)'}`,
+      slide.analysis ? `  Reading of the slide: ${describeSlideAnalysis(slide.analysis)}` : '',
+      script ? `  Narration: ${stripMarkup(script).replace(/\s+/g, ' ')}` : '',
+    ].filter(Boolean).join('\n');
+  }).join('\n');
+  const history = (request.history || [])
+    .slice(-MAX_HISTORY_TURNS)
+    .map(turn => `Q: ${turn.question}\nA: ${turn.answer}`)
+    .join('\n\n');
+
+  return `
+    You answer viewers' questions about a narrated slide presentation.
+    Use only the slides below: their text, their narration and the attached slide images.
+    If the presentation does not answer the question, say so plainly instead of guessing.
+
+    Format the output as a JSON object:
+    - answer: The answer, in the language the question is asked in. Keep it short enough to read aloud (a few sentences).
+    - slides: Array of the slide numbers (as shown below, starting from 1) the answer draws on.
+
+    PRESENTATION:
+    ${deck}
+
+    ${history ? `EARLIER QUESTIONS:\n${history}\n` : ''}
+    QUESTION: ${request.question}
+  `;
+};
+
+// Text part that goes with each attached slide image
+export const describeFocusSlide = (slide: SlideData): string => `Image of slide ${slide.index + 1}`;
+
+/**
+ * Reads the model's reply. Citations come from its slide list, or else from
+ * slide numbers mentioned in the answer; unknown slides are dropped.
+ */
+export const parseAnswerResponse = (text: string, slideCount: number): DeckAnswer => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let answer = cleaned;
+  let cited: unknown[] = [];
+  try {
+    const parsed = JSON.parse(cleaned);
+    if (parsed && typeof parsed.answer === 'string') {
+      answer = parsed.answer;
+      cited = Array.isArray(parsed.slides) ? parsed.slides : [];
+    }
+  } catch {
+    // Some models ignore the format; take the reply as the answer
+  }
+  const listed = cited.map(Number).filter(n => Number.isInteger(n) && n >= 1 && n <= slideCount).map(n => n - 1);
+  const citations = [...new Set([...listed, ...findSlideReferences(answer, slideCount)])].sort((a, b) => a - b);
+  return { answer: answer.trim(), citations };
+};
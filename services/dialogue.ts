@@ -0,0 +1,113 @@
+import { AppLanguage, DialogueHost, DialogueSettings, PronunciationEntry } from '../types';
+import { SpeechProvider, VoiceOption, resolveVoice } from './speech';
+import { concatAudioBuffers } from './audioUtils';
+import { stripMarkup, synthesizeMarkedUp } from './speechMarkup';
+
+export const DEFAULT_DIALOGUE: DialogueSettings = {
+  mode: 'monologue',
+  hosts: [
+    { name: 'Alex', role: 'curious interviewer who asks what the audience is wondering', voice: '' },
+    { name: 'Sam', role: 'domain expert who explains the slide', voice: '' },
+  ],
+};
+
+// Pause inserted between two hosts' lines
+const TURN_GAP_SECONDS = 0.3;
+
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+const LABEL_PATTERN = /^\s*([^:：\n]{1,40}?)\s*[:：]\s*(.*)$/;
+
+/**
+ * Splits a dialogue script ("Name: line" per line) into turns. Only labels
+ * matching a host name start a new turn, so "Note: ..." stays part of the
+ * text; unlabelled lines continue the current speaker.
+ */
+export const parseDialogue = (script: string, hosts: DialogueHost[]): DialogueLine[] => {
+  const lines: DialogueLine[] = [];
+  for (const raw of script.split('\n')) {
+    if (!raw.trim()) continue;
+    const match = raw.match(LABEL_PATTERN);
+    const host = match && hosts.find(h => h.name.trim().toLowerCase() === match[1].trim().toLowerCase());
+    if (host && match) {
+      lines.push({ speaker: host.name, text: match[2].trim() });
+    } else if (lines.length > 0) {
+      lines[lines.length - 1].text += ` ${raw.trim()}`;
+    } else {
+      lines.push({ speaker: hosts[0].name, text: raw.trim() });
+    }
+  }
+  return lines.filter(l => l.text);
+};
+
+// Voice shown (and used) for a host that has none chosen yet
+export const defaultHostVoice = (index: number, voices: VoiceOption[]): string =>
+  voices[Math.min(index, voices.length - 1)]?.id || '';
+
+export const isDialogue = (dialogue?: DialogueSettings): dialogue is DialogueSettings =>
+  dialogue?.mode === 'dialogue';
+
+export interface NarrationVoiceOptions {
+  language: AppLanguage;
+  voice: string; // monologue voice setting
+  dialogue?: DialogueSettings;
+  lexicon?: PronunciationEntry[];
+}
+
+/**
+ * Resolves the voices once and returns a function that turns a segment script
+ * into audio: a single read in monologue mode, or each host's lines voiced
+ * separately and stitched together in dialogue mode. Pronunciation and pause
+ * markup is honoured either way.
+ */
+export const createNarrationVoicer = async (
+  speech: SpeechProvider,
+  ctx: BaseAudioContext,
+  options: NarrationVoiceOptions
+): Promise<(script: string) => Promise<AudioBuffer>> => {
+  const { language, dialogue, lexicon } = options;
+  const speak = (text: string, voice: string) =>
+    synthesizeMarkedUp(text, chunk => speech.synthesize(chunk, voice, language, ctx), ctx, lexicon);
+
+  if (!isDialogue(dialogue)) {
+    const voice = await resolveVoice(speech, language, options.voice);
+    return script => speak(script, voice);
+  }
+
+  // Hosts without a chosen voice get distinct defaults, so the two never sound alike
+  const available = (await speech.listVoices(language)).map(v => v.id);
+  const first = await resolveVoice(speech, language, dialogue.hosts[0].voice);
+  const second = dialogue.hosts[1].voice && available.includes(dialogue.hosts[1].voice)
+    ? dialogue.hosts[1].voice
+    : available.find(v => v !== first) || first;
+  const voices = [first, second];
+
+  return async script => {
+    const parts: (AudioBuffer | number)[] = [];
+    for (const line of parseDialogue(script, dialogue.hosts)) {
+      const voice = voices[Math.max(0, dialogue.hosts.findIndex(h => h.name === line.speaker))];
+      if (parts.length > 0) parts.push(TURN_GAP_SECONDS);
+      parts.push(await speak(line.text, voice));
+    }
+    return concatAudioBuffers(parts, ctx);
+  };
+};
+
+/**
+ * Plain-text transcript with one "Name: line" per turn, grouped by slide.
+ */
+export const buildTranscript = (
+  narrations: { slideIndex: number; script: string }[],
+  dialogue?: DialogueSettings
+): string => narrations
+  .filter(n => n.script.trim())
+  .map(n => {
+    const body = isDialogue(dialogue)
+      ? parseDialogue(n.script, dialogue.hosts).map(l => `${l.speaker}: ${stripMarkup(l.text)}`).join('\n')
+      : stripMarkup(n.script);
+    return `[Slide ${n.slideIndex + 1}]\n${body}`;
+  })
+  .join('\n\n');
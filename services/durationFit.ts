@@ -0,0 +1,153 @@
+import { DurationFitSettings, NarrationSegment, SlideData } from '../types';
+import { ScriptGenerationError, ScriptItem, ScriptLengthHint, ScriptProvider, ScriptRequest, TranslationRequest } from './scripting';
+import { timeStretchBuffer } from './audioUtils';
+import { countScriptLength, getLanguageInfo } from './languages';
+
+export const DEFAULT_DURATION_FIT: DurationFitSettings = {
+  enabled: true,
+  tolerance: 0.1,
+  maxPasses: 2,
+  timeStretch: true,
+};
+
+// Time-stretching beyond this starts to sound unnatural
+const MAX_STRETCH = 0.1;
+// Rewriting more slides per pass makes the result drift from the original script
+const MAX_REWRITES_PER_PASS = 5;
+
+export const getSlideTargetSeconds = (totalSeconds: number, slideCount: number) =>
+  totalSeconds / Math.max(slideCount, 1);
+
+export const getNarrationSeconds = (narrations: NarrationSegment[]) =>
+  narrations.reduce((acc, n) => acc + (n.audioBuffer?.duration || 0), 0);
+
+export interface DurationFitContext {
+  slides: SlideData[];
+  scriptProvider: ScriptProvider;
+  voiceScript: (script: string) => Promise<AudioBuffer>;
+  ctx: BaseAudioContext;
+  request: Omit<ScriptRequest, 'slides' | 'totalDurationSec' | 'target'>;
+  // Set for translated tracks: slides are retranslated from the source script instead of rewritten
+  translation?: Omit<TranslationRequest, 'lengthHints'>;
+  targetSeconds: number;
+  settings: DurationFitSettings;
+  onUpdate: (narrations: NarrationSegment[], pass: number) => void;
+}
+
+/**
+ * Picks the slides that deviate most in the same direction as the total, and
+ * how long each should become so that together they close the gap.
+ */
+const planRewrites = (
+  narrations: NarrationSegment[],
+  slideTarget: number,
+  excess: number,
+  locked: Set<number>
+): Map<number, number> => {
+  const direction = Math.sign(excess);
+  const offenders = narrations
+    .filter(n => n.audioBuffer && !locked.has(n.slideIndex))
+    .map(n => ({ n, deviation: n.audioBuffer!.duration - slideTarget }))
+    .filter(o => Math.sign(o.deviation) === direction)
+    .sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation));
+
+  const picked: typeof offenders = [];
+  let covered = 0;
+  for (const o of offenders) {
+    if (picked.length >= MAX_REWRITES_PER_PASS || covered >= Math.abs(excess)) break;
+    picked.push(o);
+    covered += Math.abs(o.deviation);
+  }
+
+  // Don't overshoot: shrink each correction when the picked slides deviate by more than the total does
+  const share = covered > 0 ? Math.min(1, Math.abs(excess) / covered) : 0;
+  return new Map(picked.map(o => [o.n.slideIndex, o.n.audioBuffer!.duration - o.deviation * share]));
+};
+
+/**
+ * Measures the voiced narration against the target duration and, while it is
+ * outside the tolerance, rewrites and re-voices the worst-offending slides
+ * using each slide's measured speaking rate. Translated tracks are
+ * retranslated to the new length instead, so they keep the source's content.
+ * Optionally finishes with a mild time-stretch of every segment.
+ */
+export const fitNarrationDuration = async (
+  narrations: NarrationSegment[],
+  fit: DurationFitContext
+): Promise<NarrationSegment[]> => {
+  const { settings, targetSeconds } = fit;
+  const slideTarget = getSlideTargetSeconds(targetSeconds, fit.slides.length);
+  // Speaker notes read verbatim are the presenter's own words; never rewrite them
+  const locked = new Set(fit.request.notesMode === 'verbatim'
+    ? fit.slides.filter(s => s.notes?.trim()).map(s => s.index)
+    : []);
+  let current = narrations;
+
+  for (let pass = 1; pass <= settings.maxPasses; pass++) {
+    const excess = getNarrationSeconds(current) - targetSeconds;
+    if (Math.abs(excess) <= targetSeconds * settings.tolerance) return current;
+
+    const plan = planRewrites(current, slideTarget, excess, locked);
+    if (plan.size === 0) break;
+
+    const lengthHints: ScriptLengthHint[] = Array.from(plan, ([slideIndex, seconds]) => {
+      const narration = current.find(n => n.slideIndex === slideIndex)!;
+      const actual = narration.audioBuffer!.duration;
+      // Segments too short to measure fall back to the language's usual speaking rate
+      const rate = actual > 1
+        ? countScriptLength(narration.script, fit.request.language) / actual
+        : getLanguageInfo(fit.request.language).unitsPerSecond;
+      return {
+        slideIndex,
+        currentScript: narration.script,
+        currentSeconds: actual,
+        targetSeconds: seconds,
+        targetLength: Math.max(1, Math.round(rate * seconds)),
+      };
+    });
+
+    const targets = Array.from(plan.keys());
+    let rewritten: ScriptItem[];
+    try {
+      rewritten = fit.translation
+        ? await fit.scriptProvider.translateScripts({
+          ...fit.translation,
+          scripts: fit.translation.scripts.filter(s => targets.includes(s.slideIndex)),
+          lengthHints,
+        })
+        : await fit.scriptProvider.generateScripts({
+          ...fit.request,
+          slides: fit.slides.filter(s => targets.some(t => Math.abs(s.index - t) <= 1)),
+          totalDurationSec: lengthHints.reduce((acc, h) => acc + h.targetSeconds, 0),
+          target: {
+            targetSlideIndices: targets,
+            existingScripts: current.map(n => ({ slideIndex: n.slideIndex, script: n.script })),
+            lengthHints,
+          },
+        });
+    } catch (err) {
+      // Slides that could not be rewritten keep their current script
+      if (!(err instanceof ScriptGenerationError)) throw err;
+      rewritten = err.items;
+    }
+
+    for (const item of rewritten) {
+      if (!item.script?.trim()) continue;
+      current = current.map(n => n.slideIndex === item.slideIndex ? { ...n, script: item.script, status: 'voicing' } : n);
+      fit.onUpdate(current, pass);
+      const audioBuffer = await fit.voiceScript(item.script);
+      current = current.map(n => n.slideIndex === item.slideIndex ? { ...n, audioBuffer, status: 'done' } : n);
+      fit.onUpdate(current, pass);
+    }
+  }
+
+  const total = getNarrationSeconds(current);
+  if (!settings.timeStretch || total === 0 || Math.abs(total - targetSeconds) <= targetSeconds * settings.tolerance) {
+    return current;
+  }
+
+  const rate = Math.min(1 + MAX_STRETCH, Math.max(1 - MAX_STRETCH, total / targetSeconds));
+  current = current.map(n => n.audioBuffer ? { ...n, audioBuffer: timeStretchBuffer(n.audioBuffer, rate, fit.ctx) } : n);
+  fit.onUpdate(current, settings.maxPasses + 1);
+  return current;
+};
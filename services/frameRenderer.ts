@@ -0,0 +1,124 @@
+import { MotionType, SlideData, SlideEffects } from '../types';
+import { TimelineEntry, findTimelineEntry } from './timeline';
+
+export type SlideImage = HTMLImageElement | ImageBitmap;
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export const BACKGROUND = '#0f172a';
+// How far Ken Burns motion zooms past the fitted size over a slide
+export const MOTION_ZOOM = 0.12;
+
+export const DEFAULT_SLIDE_EFFECTS: SlideEffects = {
+  transition: 'crossfade',
+  transitionDuration: 0.6,
+  motion: 'none',
+};
+
+export const TRANSITION_OPTIONS: { value: SlideEffects['transition']; label: string }[] = [
+  { value: 'cut', label: 'Cut' },
+  { value: 'crossfade', label: 'Crossfade' },
+  { value: 'push', label: 'Slide / Push' },
+  { value: 'fadeBlack', label: 'Fade through black' },
+];
+
+export const MOTION_OPTIONS: { value: MotionType; label: string }[] = [
+  { value: 'none', label: 'Static' },
+  { value: 'zoomIn', label: 'Ken Burns zoom in' },
+  { value: 'zoomOut', label: 'Ken Burns zoom out' },
+  { value: 'panLeft', label: 'Pan left' },
+  { value: 'panRight', label: 'Pan right' },
+];
+
+export const resolveSlideEffects = (defaults: SlideEffects, slide: SlideData): SlideEffects => ({
+  ...defaults,
+  ...slide.effects,
+});
+
+const easeInOut = (k: number) => (k < 0.5 ? 2 * k * k : 1 - Math.pow(-2 * k + 2, 2) / 2);
+
+const clamp01 = (k: number) => Math.min(1, Math.max(0, k));
+
+const drawSlideLayer = (
+  ctx: Canvas2D,
+  image: SlideImage | undefined,
+  width: number,
+  height: number,
+  motion: MotionType,
+  progress: number
+) => {
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  if (!image) return;
+
+  const fit = Math.min(width / image.width, height / image.height);
+  const k = easeInOut(clamp01(progress));
+  let zoom = 1;
+  let panDirection = 0;
+  switch (motion) {
+    case 'zoomIn': zoom = 1 + MOTION_ZOOM * k; break;
+    case 'zoomOut': zoom = 1 + MOTION_ZOOM * (1 - k); break;
+    case 'panLeft': zoom = 1 + MOTION_ZOOM; panDirection = -1; break;
+    case 'panRight': zoom = 1 + MOTION_ZOOM; panDirection = 1; break;
+  }
+
+  const w = image.width * fit * zoom;
+  const h = image.height * fit * zoom;
+  const maxPan = (w - image.width * fit) / 2;
+  const x = (width - w) / 2 + panDirection * (k - 0.5) * 2 * maxPan;
+  const y = (height - h) / 2;
+  ctx.drawImage(image, x, y, w, h);
+};
+
+/**
+ * Paints the presentation at `time` seconds. The player and the video export
+ * both call this, so transitions and motion look the same in either. A
+ * transition plays over the first moments of the incoming slide.
+ */
+export const renderFrame = (
+  ctx: Canvas2D,
+  width: number,
+  height: number,
+  timeline: TimelineEntry[],
+  time: number,
+  defaults: SlideEffects,
+  getImage: (slide: SlideData) => SlideImage | undefined
+) => {
+  if (timeline.length === 0) return;
+
+  const index = findTimelineEntry(timeline, time);
+  const entry = timeline[index];
+  const effects = resolveSlideEffects(defaults, entry.slide);
+  const local = time - entry.start;
+  const drawEntry = (e: TimelineEntry, t: number) =>
+    drawSlideLayer(ctx, getImage(e.slide), width, height, resolveSlideEffects(defaults, e.slide).motion, t / e.duration);
+
+  const previous = timeline[index - 1];
+  const transitionLength = Math.min(effects.transitionDuration, entry.duration);
+  if (!previous || effects.transition === 'cut' || transitionLength <= 0 || local >= transitionLength) {
+    drawEntry(entry, local);
+    return;
+  }
+
+  const k = easeInOut(clamp01(local / transitionLength));
+  ctx.save();
+  switch (effects.transition) {
+    case 'crossfade':
+      drawEntry(previous, previous.duration);
+      ctx.globalAlpha = k;
+      drawEntry(entry, local);
+      break;
+    case 'push':
+      ctx.translate(-k * width, 0);
+      drawEntry(previous, previous.duration);
+      ctx.translate(width, 0);
+      drawEntry(entry, local);
+      break;
+    case 'fadeBlack':
+      if (k < 0.5) drawEntry(previous, previous.duration);
+      else drawEntry(entry, local);
+      ctx.fillStyle = `rgba(0, 0, 0, ${k < 0.5 ? k * 2 : (1 - k) * 2})`;
+      ctx.fillRect(0, 0, width, height);
+      break;
+  }
+  ctx.restore();
+};
@@ -1,82 +1,165 @@
 
 import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { AppLanguage } from "../types";
+import { ScriptProvider, ScriptRequest, TranslationRequest, buildScriptPrompt, buildTranslationPrompt, describeSlide, parseScriptResponse } from "./scripting";
+import { SpeechProvider, VoiceOption } from "./speech";
+import { QuestionRequest, buildQuestionPrompt, describeFocusSlide, parseAnswerResponse } from "./deckQa";
+import { AnalysisRequest, buildAnalysisPrompt, describeAnalysisSlide, parseAnalysisResponse } from "./slideAnalysis";
 
-export const generateScripts = async (
-  slides: { index: number; image: string; text: string }[],
-  totalDurationSec: number,
-  style: string,
-  language: 'en' | 'ko',
-  apiKey: string
-): Promise<{ slideIndex: number; script: string }[]> => {
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const totalWords = Math.floor(totalDurationSec * 2.5);
-  const wordsPerSlide = Math.floor(totalWords / slides.length);
-
-  const langInstruction = language === 'ko' 
-    ? "Generate the script in Korean (한국어)." 
-    : "Generate the script in English.";
-
-  const prompt = `
-    You are a professional presentation narrator. 
-    Analyze the following slides and their text.
-    Generate a cohesive narration script for a video that is exactly ${totalDurationSec} seconds long.
-    
-    TONE: ${style}
-    LANGUAGE: ${langInstruction}
-    TARGET WORD COUNT: Approximately ${totalWords} words in total (${wordsPerSlide} words per slide).
-    
-    Format the output as a JSON array of objects:
-    - slide_index: Number (starting from 0).
-    - script: The narration text.
-
-    CRITICAL INSTRUCTIONS:
-    1. The script for each slide must be long enough to be spoken naturally within the allocated time.
-    2. If the tone is "An atmospheric tone that reveals the truth", use slow pacing, evocative imagery, and a sense of profound discovery.
-    3. Ensure the flow between slides is seamless.
-    4. Total speaking time must match the target duration as closely as possible.
-  `;
-
-  const contents = slides.map(s => ([
-    { inlineData: { mimeType: "image/png", data: s.image.split(',')[1] } },
-    { text: `Slide ${s.index} text: ${s.text}` }
-  ])).flat();
+export const DEFAULT_GEMINI_SCRIPT_MODEL = 'gemini-3-flash-preview';
+export const DEFAULT_GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
 
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: [{ parts: [{ text: prompt }, ...contents] }],
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            slide_index: { type: Type.INTEGER },
-            script: { type: Type.STRING }
-          },
-          required: ["slide_index", "script"]
-        }
-      }
-    }
-  });
+// Gemini TTS returns raw 16-bit PCM in this layout
+const GEMINI_TTS_SAMPLE_RATE = 24000;
+const GEMINI_TTS_CHANNELS = 1;
+
+const GEMINI_VOICES = [
+  'Kore', 'Zephyr', 'Puck', 'Charon', 'Fenrir', 'Leda', 'Orus', 'Aoede',
+  'Callirrhoe', 'Autonoe', 'Enceladus', 'Iapetus', 'Umbriel', 'Algieba', 'Despina',
+  'Erinome', 'Algenib', 'Rasalgethi', 'Laomedeia', 'Achernar', 'Alnilam', 'Schedar',
+  'Gacrux', 'Pulcherrima', 'Achird', 'Zubenelgenubi', 'Vindemiatrix', 'Sadachbia',
+  'Sadaltager', 'Sulafat',
+];
+
+// Voices that sound most natural per language come first
+const PREFERRED_GEMINI_VOICE: Record<AppLanguage, string> = {
+  ko: 'Kore',
+  en: 'Zephyr',
+  ja: 'Aoede',
+  es: 'Puck',
+  zh: 'Leda',
+  fr: 'Charon',
+  de: 'Fenrir',
+};
 
-  try {
-    const text = response.text || "[]";
-    return JSON.parse(text).map((item: any) => ({
-      slideIndex: item.slide_index,
-      script: item.script
-    }));
-  } catch (e) {
-    console.error("Failed to parse script JSON", e);
-    return [];
+const SCRIPT_RESPONSE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      slide_index: { type: Type.INTEGER },
+      script: { type: Type.STRING }
+    },
+    required: ["slide_index", "script"]
   }
 };
 
-export const generateAudio = async (text: string, apiKey: string, voice: string = 'Kore'): Promise<Uint8Array> => {
+const ANSWER_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING },
+    slides: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+  },
+  required: ["answer", "slides"]
+};
+
+const ANALYSIS_RESPONSE_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      slide_index: { type: Type.INTEGER },
+      title: { type: Type.STRING },
+      key_points: { type: Type.ARRAY, items: { type: Type.STRING } },
+      visuals: { type: Type.STRING },
+      extracted_text: { type: Type.STRING }
+    },
+    required: ["slide_index", "title", "key_points", "visuals", "extracted_text"]
+  }
+};
+
+// Uploaded images keep their own format (JPEG, WebP, ...), so the type comes from the data URL
+const toInlineImage = (dataUrl: string) => ({
+  inlineData: {
+    mimeType: dataUrl.match(/^data:([^;,]+)/)?.[1] || "image/png",
+    data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+  },
+});
+
+export const createGeminiScriptProvider = (apiKey: string, model: string = DEFAULT_GEMINI_SCRIPT_MODEL): ScriptProvider => ({
+  generateScripts: async (request: ScriptRequest) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const prompt = buildScriptPrompt(request);
+
+    const contents = request.slides.map(s => ([
+      toInlineImage(s.image),
+      { text: describeSlide(s, request.notesMode) }
+    ])).flat();
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text: prompt }, ...contents] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: SCRIPT_RESPONSE_SCHEMA
+      }
+    });
+
+    return parseScriptResponse(response.text || "[]");
+  },
+
+  translateScripts: async (request: TranslationRequest) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text: buildTranslationPrompt(request) }] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: SCRIPT_RESPONSE_SCHEMA
+      }
+    });
+
+    return parseScriptResponse(response.text || "[]");
+  },
+
+  answerQuestion: async (request: QuestionRequest) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const images = request.focusSlides.map(s => ([
+      toInlineImage(s.image),
+      { text: describeFocusSlide(s) }
+    ])).flat();
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text: buildQuestionPrompt(request) }, ...images] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANSWER_RESPONSE_SCHEMA
+      }
+    });
+
+    return parseAnswerResponse(response.text || "", request.slides.length);
+  },
+
+  analyzeSlides: async (request: AnalysisRequest) => {
+    const ai = new GoogleGenAI({ apiKey });
+    const contents = request.slides.map(s => ([
+      toInlineImage(s.image),
+      { text: describeAnalysisSlide(s) }
+    ])).flat();
+
+    const response = await ai.models.generateContent({
+      model,
+      contents: [{ parts: [{ text: buildAnalysisPrompt(request) }, ...contents] }],
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: ANALYSIS_RESPONSE_SCHEMA
+      }
+    });
+
+    return parseAnalysisResponse(response.text || "[]", request.slides.map(s => s.index));
+  },
+});
+
+export const generateAudio = async (
+  text: string,
+  apiKey: string,
+  voice: string = 'Kore',
+  model: string = DEFAULT_GEMINI_TTS_MODEL
+): Promise<Uint8Array> => {
   const ai = new GoogleGenAI({ apiKey });
   const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
+    model,
     contents: [{ parts: [{ text }] }],
     config: {
       responseModalities: [Modality.AUDIO],
@@ -94,6 +177,19 @@ export const generateAudio = async (text: string, apiKey: string, voice: string
   return decode(base64Audio);
 };
 
+export const createGeminiSpeechProvider = (apiKey: string, model: string = DEFAULT_GEMINI_TTS_MODEL): SpeechProvider => ({
+  sampleRate: GEMINI_TTS_SAMPLE_RATE,
+  numChannels: GEMINI_TTS_CHANNELS,
+  listVoices: async (language: AppLanguage): Promise<VoiceOption[]> => {
+    const preferred = PREFERRED_GEMINI_VOICE[language];
+    return [preferred, ...GEMINI_VOICES.filter(v => v !== preferred)].map(id => ({ id, label: id }));
+  },
+  synthesize: async (text: string, voice: string, _language: AppLanguage, ctx: BaseAudioContext) => {
+    const audioData = await generateAudio(text, apiKey, voice, model);
+    return decodeAudioData(audioData, ctx, GEMINI_TTS_SAMPLE_RATE, GEMINI_TTS_CHANNELS);
+  },
+});
+
 function decode(base64: string) {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -106,7 +202,7 @@ function decode(base64: string) {
 
 export async function decodeAudioData(
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
@@ -0,0 +1,52 @@
+/**
+ * Scales slide images off the main thread with OffscreenCanvas: the
+ * model-sized image kept on the slide and the slide-list thumbnail. Loaded as
+ * a classic worker like the PDF one; keep this file free of runtime imports.
+ */
+
+export type ImageWorkerRequest = {
+  type: 'scale';
+  requestId: number;
+  source: Blob | ImageBitmap; // an uploaded file, or a slide already drawn
+  imageEdge: number;
+  imageType: string; // 'image/png' or 'image/jpeg'
+  thumbnailEdge: number;
+};
+
+export type ImageWorkerResponse =
+  | { type: 'scaled'; requestId: number; image: Blob; thumbnail: Blob }
+  | { type: 'error'; requestId: number; message: string };
+
+const post = (message: ImageWorkerResponse) => self.postMessage(message);
+
+// JPEG has no alpha, so transparent images get a white page behind them
+const scaleDown = (source: ImageBitmap, edge: number, opaque: boolean): OffscreenCanvas => {
+  const scale = Math.min(1, edge / Math.max(source.width, source.height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  const context = canvas.getContext('2d')!;
+  if (opaque) {
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const handle = async (message: ImageWorkerRequest) => {
+  const bitmap = message.source instanceof Blob ? await createImageBitmap(message.source) : message.source;
+  try {
+    const image = await scaleDown(bitmap, message.imageEdge, message.imageType === 'image/jpeg')
+      .convertToBlob({ type: message.imageType, quality: 0.9 });
+    const thumbnail = await scaleDown(bitmap, message.thumbnailEdge, true).convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+    post({ type: 'scaled', requestId: message.requestId, image, thumbnail });
+  } finally {
+    bitmap.close();
+  }
+};
+
+self.onmessage = (e: MessageEvent<ImageWorkerRequest>) => {
+  handle(e.data).catch(err => {
+    post({ type: 'error', requestId: e.data.requestId, message: err instanceof Error ? err.message : String(err) });
+  });
+};
@@ -0,0 +1,30 @@
+import { AppLanguage } from '../types';
+
+export interface LanguageInfo {
+  id: AppLanguage;
+  label: string;
+  promptName: string; // how the language is named in model prompts
+  isoCode: string; // ISO 639-2/T, used to tag audio and subtitle tracks
+  // Japanese and Chinese are written without spaces, so their scripts are measured in characters
+  lengthUnit: 'words' | 'characters';
+  unitsPerSecond: number; // speaking rate, in lengthUnit
+}
+
+export const LANGUAGES: LanguageInfo[] = [
+  { id: 'ko', label: '한국어 (Korean)', promptName: 'Korean (한국어)', isoCode: 'kor', lengthUnit: 'words', unitsPerSecond: 2.5 },
+  { id: 'en', label: 'English (US)', promptName: 'English', isoCode: 'eng', lengthUnit: 'words', unitsPerSecond: 2.5 },
+  { id: 'ja', label: '日本語 (Japanese)', promptName: 'Japanese (日本語)', isoCode: 'jpn', lengthUnit: 'characters', unitsPerSecond: 5 },
+  { id: 'es', label: 'Español (Spanish)', promptName: 'Spanish (Español)', isoCode: 'spa', lengthUnit: 'words', unitsPerSecond: 2.5 },
+  { id: 'zh', label: '中文 (Chinese)', promptName: 'Simplified Chinese (简体中文)', isoCode: 'zho', lengthUnit: 'characters', unitsPerSecond: 4 },
+  { id: 'fr', label: 'Français (French)', promptName: 'French (Français)', isoCode: 'fra', lengthUnit: 'words', unitsPerSecond: 2.5 },
+  { id: 'de', label: 'Deutsch (German)', promptName: 'German (Deutsch)', isoCode: 'deu', lengthUnit: 'words', unitsPerSecond: 2.5 },
+];
+
+export const getLanguageInfo = (id: AppLanguage): LanguageInfo =>
+  LANGUAGES.find(l => l.id === id) || LANGUAGES[0];
+
+/** Length of a script in its language's unit: words, or letters and digits for ja/zh. */
+export const countScriptLength = (script: string, language: AppLanguage): number =>
+  getLanguageInfo(language).lengthUnit === 'characters'
+    ? (script.match(/[\p{L}\p{N}]/gu) || []).length
+    : script.trim().split(/\s+/).filter(Boolean).length;
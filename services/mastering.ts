@@ -0,0 +1,246 @@
+import { AudioExportSettings, NarrationSegment, SlideData } from '../types';
+import { TimelineEntry, buildTimeline } from './timeline';
+import { renderPresentationAudio } from './audioMix';
+import { MusicBed } from './music';
+
+/**
+ * Mastering for the exported narration: every segment is trimmed of leading
+ * and trailing silence and brought to the same loudness (ITU-R BS.1770
+ * integrated LUFS), the slides are spaced by a set gap and joined with short
+ * fades, and a look-ahead limiter keeps the final mix under the ceiling.
+ */
+
+// BS.1770 gating blocks: 400 ms long, starting every 100 ms
+const BLOCK_SECONDS = 0.4;
+const BLOCK_HOP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+// Quiet segments are not boosted by more than this, so room noise stays down
+const MAX_GAIN_DB = 20;
+
+// Anything under this level (10 ms RMS) counts as silence when trimming
+const SILENCE_DB = -50;
+const SILENCE_FRAME_SECONDS = 0.01;
+// Kept on either side of the speech so breaths and consonants are not clipped
+const TRIM_PAD_SECONDS = 0.08;
+
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.08;
+
+const dbToGain = (db: number) => 10 ** (db / 20);
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/**
+ * The two K-weighting stages (a high shelf for the head, then a high-pass)
+ * for any sample rate, derived from the filters BS.1770 specifies at 48 kHz.
+ */
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  const shelf = (() => {
+    const f0 = 1681.974450955533, gainDb = 3.999843853973347, q = 0.7071752369554196;
+    const k = Math.tan(Math.PI * f0 / sampleRate);
+    const vh = 10 ** (gainDb / 20);
+    const vb = vh ** 0.4996667741545416;
+    const a0 = 1 + k / q + k * k;
+    return {
+      b0: (vh + vb * k / q + k * k) / a0,
+      b1: 2 * (k * k - vh) / a0,
+      b2: (vh - vb * k / q + k * k) / a0,
+      a1: 2 * (k * k - 1) / a0,
+      a2: (1 - k / q + k * k) / a0,
+    };
+  })();
+  const highPass = (() => {
+    const f0 = 38.13547087602444, q = 0.5003270373238773;
+    const k = Math.tan(Math.PI * f0 / sampleRate);
+    const a0 = 1 + k / q + k * k;
+    return { b0: 1, b1: -2, b2: 1, a1: 2 * (k * k - 1) / a0, a2: (1 - k / q + k * k) / a0 };
+  })();
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, f: Biquad): Float32Array => {
+  const out = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = f.b0 * x + f.b1 * x1 + f.b2 * x2 - f.a1 * y1 - f.a2 * y2;
+    out[i] = y;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+  }
+  return out;
+};
+
+const energyToLufs = (energy: number) => -0.691 + 10 * Math.log10(energy);
+
+/**
+ * Integrated loudness of a buffer in LUFS, gated as BS.1770 describes.
+ * Returns -Infinity for silence. Buffers shorter than one block are
+ * measured as a single block.
+ */
+export const measureLoudness = (buffer: AudioBuffer): number => {
+  const filters = kWeightingFilters(buffer.sampleRate);
+  const weighted = Array.from({ length: buffer.numberOfChannels }, (_, c) =>
+    filters.reduce((data, f) => applyBiquad(data, f), buffer.getChannelData(c)));
+
+  const blockLength = Math.min(buffer.length, Math.round(BLOCK_SECONDS * buffer.sampleRate));
+  const hop = Math.max(1, Math.round(BLOCK_HOP_SECONDS * buffer.sampleRate));
+  if (blockLength === 0) return -Infinity;
+
+  const blocks: number[] = [];
+  for (let start = 0; start + blockLength <= buffer.length; start += hop) {
+    let energy = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + blockLength; i++) sum += data[i] * data[i];
+      energy += sum / blockLength;
+    }
+    blocks.push(energy);
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const audible = blocks.filter(e => e > 0 && energyToLufs(e) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return -Infinity;
+  const relativeGate = energyToLufs(mean(audible)) + RELATIVE_GATE_LU;
+  const gated = audible.filter(e => energyToLufs(e) > relativeGate);
+  return energyToLufs(mean(gated));
+};
+
+/** Sample range that holds the speech, padded on both sides; null for silence. */
+const findSpeechRange = (buffer: AudioBuffer): { start: number; end: number } | null => {
+  const frame = Math.max(1, Math.round(SILENCE_FRAME_SECONDS * buffer.sampleRate));
+  const threshold = dbToGain(SILENCE_DB);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const isLoud = (f: number) => {
+    let sum = 0;
+    const end = Math.min(buffer.length, f + frame);
+    for (const data of channels) {
+      for (let i = f; i < end; i++) sum += data[i] * data[i];
+    }
+    return Math.sqrt(sum / ((end - f) * channels.length)) >= threshold;
+  };
+
+  let first = -1, last = -1;
+  for (let f = 0; f < buffer.length; f += frame) {
+    if (!isLoud(f)) continue;
+    if (first < 0) first = f;
+    last = Math.min(buffer.length, f + frame);
+  }
+  if (first < 0) return null;
+  const pad = Math.round(TRIM_PAD_SECONDS * buffer.sampleRate);
+  return { start: Math.max(0, first - pad), end: Math.min(buffer.length, last + pad) };
+};
+
+/**
+ * One narration segment made ready for the mix: trimmed, normalized to the
+ * target loudness and faded in and out over `fade` seconds.
+ */
+export const masterSegment = (
+  buffer: AudioBuffer,
+  settings: Pick<AudioExportSettings, 'targetLufs' | 'trimSilence'>,
+  fade: number,
+  ctx: BaseAudioContext
+): AudioBuffer => {
+  const range = settings.trimSilence ? findSpeechRange(buffer) : null;
+  const start = range?.start ?? 0;
+  const length = Math.max(1, (range?.end ?? buffer.length) - start);
+
+  const out = ctx.createBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    out.getChannelData(c).set(buffer.getChannelData(c).subarray(start, start + length));
+  }
+
+  // Measured after trimming, so blocks straddling the cut silence do not pull it down
+  const loudness = measureLoudness(out);
+  const gain = Number.isFinite(loudness) ? dbToGain(Math.min(settings.targetLufs - loudness, MAX_GAIN_DB)) : 1;
+  const fadeLength = Math.min(Math.round(fade * buffer.sampleRate), Math.floor(length / 2));
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = out.getChannelData(c);
+    for (let i = 0; i < length; i++) data[i] *= gain;
+    // Raised-cosine fades, so overlapping joins keep a steady level
+    for (let i = 0; i < fadeLength; i++) {
+      const g = 0.5 - 0.5 * Math.cos(Math.PI * (i + 0.5) / fadeLength);
+      data[i] *= g;
+      data[length - 1 - i] *= g;
+    }
+  }
+  return out;
+};
+
+/**
+ * Keeps every sample at or under `ceilingDb`. The gain starts falling a few
+ * milliseconds before each peak (look-ahead) and recovers smoothly after it,
+ * with all channels sharing one gain so the image does not shift.
+ */
+export const limitPeaks = (buffer: AudioBuffer, ceilingDb: number): void => {
+  const ceiling = dbToGain(ceilingDb);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const n = buffer.length;
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SECONDS * buffer.sampleRate));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * buffer.sampleRate));
+
+  // Gain each sample needs on its own, then ramped down ahead of every peak
+  const gain = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    let peak = 0;
+    for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+    gain[i] = peak > ceiling ? ceiling / peak : 1;
+  }
+  for (let i = n - 2; i >= 0; i--) gain[i] = Math.min(gain[i], gain[i + 1] + 1 / lookahead);
+
+  let current = 1;
+  for (let i = 0; i < n; i++) {
+    current = Math.min(gain[i], current + (1 - current) * release);
+    if (current < 1) for (const data of channels) data[i] *= current;
+  }
+};
+
+/**
+ * Spaces the slides `gap` seconds apart, overlapping neighbouring segments by
+ * the crossfade. Slides without audio keep their silent duration.
+ */
+export const buildMasteredTimeline = (
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  settings: Pick<AudioExportSettings, 'gap' | 'crossfade'>
+): TimelineEntry[] => {
+  const timeline = buildTimeline(slides, narrations);
+  let start = 0;
+  return timeline.map((entry, i) => {
+    const isLast = i === timeline.length - 1;
+    const duration = isLast ? entry.duration : Math.max(entry.duration + settings.gap - settings.crossfade, entry.duration / 2);
+    const spaced = { ...entry, start, duration };
+    start += duration;
+    return spaced;
+  });
+};
+
+/**
+ * The whole narration track mastered and mixed with the music bed, at the
+ * narration's own sample rate, or null when nothing has been voiced.
+ */
+export const renderMasteredAudio = async (
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  settings: AudioExportSettings,
+  music?: MusicBed
+): Promise<AudioBuffer | null> => {
+  const voiced = narrations.find(n => n.audioBuffer);
+  if (!voiced) return null;
+  const sampleRate = voiced.audioBuffer!.sampleRate;
+  // Only used to create buffers
+  const ctx = new OfflineAudioContext(1, 1, sampleRate);
+
+  const mastered = narrations.map(n => n.audioBuffer
+    ? { ...n, audioBuffer: masterSegment(n.audioBuffer, settings, settings.crossfade, ctx) }
+    : n);
+  const mixed = await renderPresentationAudio(buildMasteredTimeline(slides, mastered, settings), sampleRate, 1, music);
+  limitPeaks(mixed, settings.ceiling);
+  return mixed;
+};
@@ -0,0 +1,191 @@
+import { MusicSettings } from '../types';
+import { TimelineEntry, getTimelineDuration } from './timeline';
+
+export interface MusicBed {
+  settings: MusicSettings;
+  buffer: AudioBuffer;
+}
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  source: 'none',
+  gain: 0.35,
+  duckLevel: 0.3,
+  fadeIn: 2,
+  fadeOut: 3,
+};
+
+export const MUSIC_SOURCE_OPTIONS: { value: MusicSettings['source']; label: string }[] = [
+  { value: 'none', label: 'No music' },
+  { value: 'ambient', label: 'Ambient pad (bundled)' },
+  { value: 'pulse', label: 'Soft pulse (bundled)' },
+  { value: 'upload', label: 'Uploaded track' },
+];
+
+// Ducking ramps: the bed starts dipping slightly before speech and recovers after it
+const DUCK_ATTACK = 0.3;
+const DUCK_RELEASE = 0.6;
+
+interface SpeechInterval {
+  start: number;
+  end: number;
+}
+
+const getSpeechIntervals = (timeline: TimelineEntry[]): SpeechInterval[] =>
+  timeline
+    .filter(e => e.narration?.audioBuffer)
+    .map(e => ({ start: e.start, end: e.start + e.narration!.audioBuffer!.duration }));
+
+/**
+ * Music bed level at timeline time `t`: the base gain, ducked around speech
+ * and faded in/out at the ends of the presentation.
+ */
+const musicGainAt = (t: number, total: number, speech: SpeechInterval[], settings: MusicSettings): number => {
+  let duckWeight = 0;
+  for (const s of speech) {
+    if (t < s.start - DUCK_ATTACK || t > s.end + DUCK_RELEASE) continue;
+    const w = t < s.start
+      ? (t - (s.start - DUCK_ATTACK)) / DUCK_ATTACK
+      : t > s.end ? 1 - (t - s.end) / DUCK_RELEASE : 1;
+    duckWeight = Math.max(duckWeight, w);
+  }
+  const duck = 1 - (1 - settings.duckLevel) * duckWeight;
+  const fadeIn = settings.fadeIn > 0 ? t / settings.fadeIn : 1;
+  const fadeOut = settings.fadeOut > 0 ? (total - t) / settings.fadeOut : 1;
+  const fade = Math.max(0, Math.min(1, fadeIn, fadeOut));
+  return settings.gain * duck * fade;
+};
+
+/**
+ * Breakpoints of the ducking envelope in timeline seconds, suitable for
+ * linearRampToValueAtTime.
+ */
+export const buildMusicEnvelope = (timeline: TimelineEntry[], settings: MusicSettings): { time: number; value: number }[] => {
+  const total = getTimelineDuration(timeline);
+  const speech = getSpeechIntervals(timeline);
+  const times = new Set<number>([0, settings.fadeIn, total - settings.fadeOut, total]);
+  speech.forEach(s => [s.start - DUCK_ATTACK, s.start, s.end, s.end + DUCK_RELEASE].forEach(t => times.add(t)));
+
+  return Array.from(times)
+    .filter(t => t >= 0 && t <= total)
+    .sort((a, b) => a - b)
+    .map(time => ({ time, value: musicGainAt(time, total, speech, settings) }));
+};
+
+export interface ScheduledMusic {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  stop: () => void;
+}
+
+/**
+ * Starts the looping music bed on `ctx` at context time `when`, beginning at
+ * timeline position `offset`, with the ducking envelope pre-scheduled. Used by
+ * the offline mixers and by the live player alike. `rate` is the player's
+ * speed: the envelope follows the faster timeline while the music itself
+ * keeps its tempo.
+ */
+export const scheduleMusicBed = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  buffer: AudioBuffer,
+  timeline: TimelineEntry[],
+  settings: MusicSettings,
+  when: number = 0,
+  offset: number = 0,
+  rate: number = 1
+): ScheduledMusic => {
+  const total = getTimelineDuration(timeline);
+  const envelope = buildMusicEnvelope(timeline, settings);
+
+  const gain = ctx.createGain();
+  const speech = getSpeechIntervals(timeline);
+  gain.gain.setValueAtTime(musicGainAt(offset, total, speech, settings), when);
+  envelope
+    .filter(p => p.time > offset)
+    .forEach(p => gain.gain.linearRampToValueAtTime(p.value, when + (p.time - offset) / rate));
+  gain.connect(destination);
+
+  const source = ctx.createBufferSource();
+  source.buffer = buffer;
+  source.loop = true;
+  source.connect(gain);
+  source.start(when, offset % buffer.duration);
+  if (total > offset) source.stop(when + (total - offset) / rate);
+
+  return {
+    source,
+    gain,
+    stop: () => {
+      try { source.stop(); } catch { /* already stopped */ }
+      source.disconnect();
+      gain.disconnect();
+    },
+  };
+};
+
+const LOOP_SAMPLE_RATE = 44100;
+const LOOP_BPM = 80;
+// Cmaj7 – Am7 – Fmaj7 – G6, one chord per bar
+const LOOP_CHORDS = [
+  [261.63, 329.63, 392.0, 493.88],
+  [220.0, 261.63, 329.63, 392.0],
+  [174.61, 220.0, 261.63, 329.63],
+  [196.0, 246.94, 293.66, 329.63],
+];
+
+/**
+ * Synthesizes one of the bundled loops. They are generated rather than shipped
+ * as files, so they are royalty-free and need no network.
+ */
+export const generateBundledLoop = async (source: 'ambient' | 'pulse'): Promise<AudioBuffer> => {
+  const barSeconds = (60 / LOOP_BPM) * 4;
+  const length = barSeconds * LOOP_CHORDS.length;
+  const ctx = new OfflineAudioContext(2, Math.ceil(length * LOOP_SAMPLE_RATE), LOOP_SAMPLE_RATE);
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = 'lowpass';
+  filter.frequency.value = source === 'ambient' ? 1200 : 2400;
+  const master = ctx.createGain();
+  master.gain.value = 0.18;
+  filter.connect(master).connect(ctx.destination);
+
+  LOOP_CHORDS.forEach((chord, bar) => {
+    const barStart = bar * barSeconds;
+    chord.forEach((freq, voice) => {
+      if (source === 'ambient') {
+        // Long overlapping swells; every note returns to silence inside its bar so the loop is seamless
+        const osc = ctx.createOscillator();
+        osc.type = 'triangle';
+        osc.frequency.value = freq;
+        osc.detune.value = (voice - 1.5) * 4;
+        const env = ctx.createGain();
+        env.gain.setValueAtTime(0, barStart);
+        env.gain.linearRampToValueAtTime(0.25, barStart + barSeconds * 0.4);
+        env.gain.linearRampToValueAtTime(0, barStart + barSeconds);
+        osc.connect(env).connect(filter);
+        osc.start(barStart);
+        osc.stop(barStart + barSeconds);
+      } else {
+        const beat = 60 / LOOP_BPM / 2;
+        for (let step = 0; step < 8; step++) {
+          if ((step + voice) % 2 !== 0) continue;
+          const t = barStart + step * beat;
+          // Let notes ring across bars, but never past the loop point
+          const decay = Math.min(beat * 1.8, length - t - 0.02);
+          const osc = ctx.createOscillator();
+          osc.type = 'sine';
+          osc.frequency.value = freq * (step % 4 === 0 ? 0.5 : 1);
+          const env = ctx.createGain();
+          env.gain.setValueAtTime(0, t);
+          env.gain.linearRampToValueAtTime(0.3, t + 0.01);
+          env.gain.exponentialRampToValueAtTime(0.001, t + decay);
+          osc.connect(env).connect(filter);
+          osc.start(t);
+          osc.stop(t + decay + 0.01);
+        }
+      }
+    });
+  });
+
+  return ctx.startRendering();
+};
@@ -1,49 +1,122 @@
 
 import { SlideData } from '../types';
+import type { PdfWorkerRequest, PdfWorkerResponse } from './pdfWorker';
+import { MODEL_IMAGE_EDGE, THUMBNAIL_EDGE, blobToDataUrl, getSourceFile, registerSourceFile } from './slideSources';
 
-declare const pdfjsLib: any;
-
-export const processPdf = async (file: File): Promise<SlideData[]> => {
-  const arrayBuffer = await file.arrayBuffer();
-  // PDF.js worker source setup is handled via CDN in index.html, 
-  // but we ensure the document is loaded correctly.
-  const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
-  const slides: SlideData[] = [];
-
-  // High scale (4.0) ensures that even on 4K exports, the source text and images remain sharp.
-  // Standard PDF point is 1/72 inch, so scale 4.0 is roughly 288 DPI.
-  const RENDER_SCALE = 4.0;
-
-  for (let i = 1; i <= pdf.numPages; i++) {
-    const page = await pdf.getPage(i);
-    const viewport = page.getViewport({ scale: RENDER_SCALE });
-    
-    const canvas = document.createElement('canvas');
-    const context = canvas.getContext('2d');
-    
-    if (!context) throw new Error("Could not create canvas context for PDF rendering");
-
-    canvas.height = viewport.height;
-    canvas.width = viewport.width;
-
-    // Use high-quality transform for rendering
-    await page.render({ 
-      canvasContext: context, 
-      viewport,
-      intent: 'print' // Use print intent for better color/detail accuracy
-    }).promise;
-    
-    // Use PNG (lossless) to preserve quality during the intermediate step
-    const image = canvas.toDataURL('image/png');
-    const textContent = await page.getTextContent();
-    const text = textContent.items.map((item: any) => item.str).join(' ');
-
-    slides.push({
-      index: i - 1,
-      image,
-      text
+type WorkerRequest = PdfWorkerRequest extends infer R ? R extends PdfWorkerRequest ? Omit<R, 'requestId'> : never : never;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { onMessage: (message: PdfWorkerResponse) => void; reject: (err: Error) => void }>();
+
+// The decks themselves stay in services/slideSources (they are small next to
+// their rendered pages) so pages can be rendered again at full export resolution
+const openDecks = new Set<string>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./pdfWorker.ts', import.meta.url));
+  worker.onmessage = (e: MessageEvent<PdfWorkerResponse>) => pending.get(e.data.requestId)?.onMessage(e.data);
+  worker.onerror = (e) => {
+    // A worker that failed to load cannot be reused; fail everything in flight
+    const err = new Error(e.message || "PDF 렌더링 워커를 시작하지 못했습니다.");
+    pending.forEach(p => p.reject(err));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+    openDecks.clear();
+  };
+  return worker;
+};
+
+/**
+ * Sends one request to the worker. `onMessage` sees every reply to it and
+ * returns a value to resolve with, or undefined to keep listening.
+ */
+const request = <T>(
+  message: WorkerRequest,
+  onMessage: (message: PdfWorkerResponse) => T | undefined,
+  transfer: Transferable[] = []
+): Promise<T> => {
+  const requestId = nextRequestId++;
+  return new Promise<T>((resolve, reject) => {
+    pending.set(requestId, {
+      onMessage: (reply) => {
+        if (reply.type === 'error') {
+          pending.delete(requestId);
+          reject(new Error(reply.message));
+          return;
+        }
+        const result = onMessage(reply);
+        if (result !== undefined) {
+          pending.delete(requestId);
+          resolve(result);
+        }
+      },
+      reject,
+    });
+    getWorker().postMessage({ ...message, requestId } as PdfWorkerRequest, transfer);
+  });
+};
+
+const openDeck = async (deck: string) => {
+  if (openDecks.has(deck)) return;
+  const data = getSourceFile(deck);
+  if (!data) throw new Error(`PDF ${deck} is not loaded`);
+  // The worker gets its own copy; pdf.js detaches the buffer it parses
+  const copy = data.slice(0);
+  await request({ type: 'open', deck, data: copy }, reply => reply.type === 'opened' || undefined, [copy]);
+  openDecks.add(deck);
+};
+
+const closeDeck = async (deck: string) => {
+  if (!openDecks.delete(deck)) return;
+  await request({ type: 'close', deck }, reply => reply.type === 'done' || undefined);
+};
+
+/**
+ * Rasterizes every page in the worker, keeping a model-sized image and a
+ * thumbnail per slide. `onPage` reports progress as pages finish.
+ */
+export const processPdf = async (file: File, onPage?: (page: number, pageCount: number) => void): Promise<SlideData[]> => {
+  const deck = crypto.randomUUID();
+  registerSourceFile(deck, await file.arrayBuffer());
+  await openDeck(deck);
+
+  const pages: Promise<SlideData>[] = [];
+  try {
+    await request({ type: 'rasterize', deck, imageEdge: MODEL_IMAGE_EDGE, thumbnailEdge: THUMBNAIL_EDGE }, reply => {
+      if (reply.type === 'page') {
+        pages.push(Promise.all([blobToDataUrl(reply.image), blobToDataUrl(reply.thumbnail)]).then(([image, thumbnail]) => ({
+          index: reply.page - 1,
+          image,
+          thumbnail,
+          text: reply.text,
+          source: { kind: 'pdf', deck, page: reply.page },
+        })));
+        onPage?.(reply.page, reply.pageCount);
+      }
+      return reply.type === 'done' || undefined;
     });
+  } finally {
+    // Parsed pages hold a lot of memory in pdf.js; export reopens the deck when it needs it
+    await closeDeck(deck);
   }
+  return Promise.all(pages);
+};
+
+/**
+ * Renders a PDF slide again as large as fits in width x height, for export.
+ * Returns null when the slide did not come from a PDF that is still loaded.
+ */
+export const renderPdfSlide = async (slide: SlideData, width: number, height: number): Promise<ImageBitmap | null> => {
+  if (!slide.source || (slide.source.kind || 'pdf') !== 'pdf' || !getSourceFile(slide.source.deck)) return null;
+  const { deck, page } = slide.source;
+  await openDeck(deck);
+  return request({ type: 'render', deck, page, width: Math.round(width), height: Math.round(height) },
+    reply => reply.type === 'rendered' ? reply.bitmap : undefined);
+};
 
-  return slides;
+export const closePdfDecks = async () => {
+  await Promise.all([...openDecks].map(closeDeck));
 };
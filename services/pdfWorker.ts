@@ -0,0 +1,146 @@
+/**
+ * Rasterizes PDF pages off the main thread with OffscreenCanvas. Loaded as a
+ * classic worker so pdf.js can come from the same CDN build the page uses;
+ * keep this file free of runtime imports.
+ */
+
+declare function importScripts(...urls: string[]): void;
+declare const pdfjsLib: any;
+
+export type PdfWorkerRequest =
+  | { type: 'open'; requestId: number; deck: string; data: ArrayBuffer }
+  | { type: 'rasterize'; requestId: number; deck: string; imageEdge: number; thumbnailEdge: number }
+  | { type: 'render'; requestId: number; deck: string; page: number; width: number; height: number }
+  | { type: 'close'; requestId: number; deck: string };
+
+export type PdfWorkerResponse =
+  | { type: 'opened'; requestId: number; pageCount: number }
+  | { type: 'page'; requestId: number; page: number; pageCount: number; image: Blob; thumbnail: Blob; text: string }
+  | { type: 'rendered'; requestId: number; bitmap: ImageBitmap }
+  | { type: 'done'; requestId: number }
+  | { type: 'error'; requestId: number; message: string };
+
+const PDFJS_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.min.js';
+const PDFJS_WORKER_URL = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+// With the pdf.js worker script loaded here as well, pdf.js parses in this
+// thread instead of trying to start a worker of its own
+importScripts(PDFJS_URL, PDFJS_WORKER_URL);
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+// pdf.js draws patterns and masks on scratch canvases, which have to be offscreen here
+const canvasFactory = {
+  create: (width: number, height: number): CanvasAndContext => {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  },
+  reset: (target: CanvasAndContext, width: number, height: number) => {
+    target.canvas!.width = width;
+    target.canvas!.height = height;
+  },
+  destroy: (target: CanvasAndContext) => {
+    target.canvas!.width = 0;
+    target.canvas!.height = 0;
+    target.canvas = null;
+    target.context = null;
+  },
+};
+
+// SVG filters (transfer maps, high-contrast mode) need a DOM; render without them
+const filterFactory = {
+  addFilter: () => 'none',
+  addHCMFilter: () => 'none',
+  addHighlightHCMFilter: () => 'none',
+  destroy: () => {},
+};
+
+const documents = new Map<string, Promise<any>>();
+
+const post = (message: PdfWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+const getDocument = (deck: string): Promise<any> => {
+  const doc = documents.get(deck);
+  if (!doc) throw new Error(`PDF ${deck} is not open`);
+  return doc;
+};
+
+/**
+ * Draws one page as large as fits in maxWidth x maxHeight.
+ */
+const renderPage = async (doc: any, pageNumber: number, maxWidth: number, maxHeight: number) => {
+  const page = await doc.getPage(pageNumber);
+  const base = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: Math.min(maxWidth / base.width, maxHeight / base.height) });
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(viewport.width)), Math.max(1, Math.round(viewport.height)));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error("Could not create canvas context for PDF rendering");
+  // Print intent gives better color/detail accuracy
+  await page.render({ canvasContext: context, viewport, intent: 'print' }).promise;
+  return { page, canvas };
+};
+
+const scaleDown = (source: OffscreenCanvas, edge: number): OffscreenCanvas => {
+  const scale = Math.min(1, edge / Math.max(source.width, source.height));
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  const context = canvas.getContext('2d')!;
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const handle = async (message: PdfWorkerRequest) => {
+  switch (message.type) {
+    case 'open': {
+      const loading = pdfjsLib.getDocument({
+        data: message.data,
+        canvasFactory,
+        filterFactory,
+        ownerDocument: { fonts: (self as any).fonts },
+        isOffscreenCanvasSupported: true,
+      }).promise;
+      documents.set(message.deck, loading);
+      const doc = await loading;
+      post({ type: 'opened', requestId: message.requestId, pageCount: doc.numPages });
+      break;
+    }
+    case 'rasterize': {
+      const doc = await getDocument(message.deck);
+      for (let i = 1; i <= doc.numPages; i++) {
+        const { page, canvas } = await renderPage(doc, i, message.imageEdge, message.imageEdge);
+        const image = await canvas.convertToBlob({ type: 'image/png' });
+        const thumbnail = await scaleDown(canvas, message.thumbnailEdge).convertToBlob({ type: 'image/jpeg', quality: 0.8 });
+        const textContent = await page.getTextContent();
+        const text = textContent.items.map((item: any) => item.str).join(' ');
+        page.cleanup();
+        post({ type: 'page', requestId: message.requestId, page: i, pageCount: doc.numPages, image, thumbnail, text });
+      }
+      post({ type: 'done', requestId: message.requestId });
+      break;
+    }
+    case 'render': {
+      const doc = await getDocument(message.deck);
+      const { page, canvas } = await renderPage(doc, message.page, message.width, message.height);
+      page.cleanup();
+      const bitmap = canvas.transferToImageBitmap();
+      post({ type: 'rendered', requestId: message.requestId, bitmap }, [bitmap]);
+      break;
+    }
+    case 'close': {
+      const doc = documents.get(message.deck);
+      documents.delete(message.deck);
+      if (doc) await (await doc).destroy();
+      post({ type: 'done', requestId: message.requestId });
+      break;
+    }
+  }
+};
+
+self.onmessage = (e: MessageEvent<PdfWorkerRequest>) => {
+  handle(e.data).catch(err => {
+    post({ type: 'error', requestId: e.data.requestId, message: err instanceof Error ? err.message : String(err) });
+  });
+};
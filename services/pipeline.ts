@@ -0,0 +1,256 @@
+import { AppLanguage, NarrationSegment, NarrationTrack, ProcessingStep, ProjectSettings, SlideData } from '../types';
+import { processPdf } from './pdf';
+import { processPptx, isPptxFile } from './pptx';
+import { processImage } from './slideSources';
+import { ScriptGenerationError, ScriptItem, ScriptProvider, TranslationRequest, generateDeckScripts } from './scripting';
+import { SpeechProvider } from './speech';
+import { createNarrationVoicer } from './dialogue';
+import { fitNarrationDuration } from './durationFit';
+import { buildTimeline } from './timeline';
+import { renderPresentationAudio } from './audioMix';
+import { MusicBed } from './music';
+import { buildSubtitleCues, toSrt, toWebVtt } from './subtitles';
+import { analyzeDeckSlides, needsAnalysis } from './slideAnalysis';
+import { buildChapters, buildTimelineManifest, toWebVttChapters, toYouTubeChapters } from './chapters';
+
+/**
+ * The deck-to-narration pipeline without any UI: parse the files, read the
+ * image-only slides, write the scripts, voice every language and fit it to
+ * the target duration. The app drives it through the hooks; the headless
+ * renderer runs it unattended.
+ */
+
+export interface PipelineProviders {
+  script: ScriptProvider;
+  speech: SpeechProvider;
+}
+
+export interface PipelineHooks {
+  onStep?: (step: ProcessingStep, progress: number) => void;
+  onSlides?: (slides: SlideData[]) => void;
+  onNarrations?: (narrations: NarrationSegment[], progress: number) => void;
+  onTracks?: (tracks: NarrationTrack[], progress: number) => void;
+}
+
+export interface PipelineResult {
+  slides: SlideData[];
+  narrations: NarrationSegment[];
+  tracks: NarrationTrack[];
+}
+
+// Progress (percent) at which each stage starts; voicing fills the rest up to VOICING_END
+const PROGRESS = { parsing: 10, analyzing: 20, scripting: 30, voicing: 60 };
+const VOICING_END = 99;
+
+/**
+ * Turns PDFs, PPTX decks and images into one slide list, numbered in file order.
+ * `onProgress` gets the finished fraction (0..1) as files, pages and slides complete.
+ */
+export const parseDeck = async (files: File[], onProgress?: (fraction: number) => void): Promise<SlideData[]> => {
+  const slides: SlideData[] = [];
+  for (let f = 0; f < files.length; f++) {
+    const file = files[f];
+    if (file.type === 'application/pdf') {
+      slides.push(...await processPdf(file, (page, pageCount) => onProgress?.((f + page / pageCount) / files.length)));
+    } else if (isPptxFile(file)) {
+      slides.push(...await processPptx(file, (slide, slideCount) => onProgress?.((f + slide / slideCount) / files.length)));
+    } else if (file.type.startsWith('image/')) {
+      slides.push(await processImage(file));
+    }
+    onProgress?.((f + 1) / files.length);
+  }
+  if (slides.length === 0) throw new Error("유효한 슬라이드를 찾을 수 없습니다.");
+  return slides.map((slide, index) => ({ ...slide, index }));
+};
+
+export const getVoiceSetting = (settings: ProjectSettings, language: AppLanguage): string =>
+  language === settings.language
+    ? settings.speechProvider.voice
+    : settings.translations.find(t => t.language === language)?.voice || '';
+
+/**
+ * Reads the slides that have too little text of their own from their images,
+ * then writes the primary script, voices it, translates the final primary
+ * script into every extra language and voices those tracks too. Slides that
+ * already carry an analysis (possibly corrected by hand) keep it.
+ */
+export const generateNarration = async (
+  deck: SlideData[],
+  settings: ProjectSettings,
+  providers: PipelineProviders,
+  ctx: BaseAudioContext,
+  hooks: PipelineHooks = {}
+): Promise<PipelineResult> => {
+  let slides = deck;
+  const unread = deck.filter(s => !s.analysis && needsAnalysis(s));
+  if (unread.length > 0) {
+    hooks.onStep?.('analyzing', PROGRESS.analyzing);
+    slides = await analyzeDeckSlides(providers.script, deck, unread, fraction =>
+      hooks.onStep?.('analyzing', PROGRESS.analyzing + Math.floor(fraction * (PROGRESS.scripting - PROGRESS.analyzing))));
+    hooks.onSlides?.(slides);
+  }
+
+  hooks.onStep?.('scripting', PROGRESS.scripting);
+  const scriptOptions = {
+    style: settings.style,
+    language: settings.language,
+    notesMode: settings.notesMode,
+    dialogue: settings.dialogue,
+  };
+  const scriptItems = await generateDeckScripts(providers.script, {
+    ...scriptOptions,
+    slides,
+    totalDurationSec: settings.duration,
+  }, fraction => hooks.onStep?.('scripting', PROGRESS.scripting + Math.floor(fraction * (PROGRESS.voicing - PROGRESS.scripting))));
+  const narrations: NarrationSegment[] = scriptItems.map(item => ({
+    slideIndex: item.slideIndex,
+    script: item.script,
+    status: 'stale',
+  }));
+  hooks.onNarrations?.(narrations, PROGRESS.voicing);
+  hooks.onStep?.('voicing', PROGRESS.voicing);
+
+  const progressSpan = (VOICING_END - PROGRESS.voicing) / (1 + settings.translations.length);
+
+  // Voices one language and fits it to the target duration; `apply` reports every update.
+  // Translated tracks pass their translation request, so fitting retranslates instead of rewriting.
+  const voiceTrack = async (
+    segments: NarrationSegment[],
+    language: AppLanguage,
+    progressFrom: number,
+    apply: (narrations: NarrationSegment[], progress: number) => void,
+    translation?: TranslationRequest
+  ): Promise<NarrationSegment[]> => {
+    const voiceScript = await createNarrationVoicer(providers.speech, ctx, {
+      language,
+      voice: getVoiceSetting(settings, language),
+      dialogue: settings.dialogue,
+      lexicon: settings.lexicon,
+    });
+    let voiced = [...segments];
+    for (let i = 0; i < voiced.length; i++) {
+      const buffer = await voiceScript(voiced[i].script);
+      voiced[i] = { ...voiced[i], audioBuffer: buffer, status: 'done' };
+      apply([...voiced], progressFrom + Math.floor(((i + 1) / voiced.length) * progressSpan * 0.75));
+    }
+
+    if (settings.durationFit.enabled) {
+      const passes = settings.durationFit.maxPasses + 1;
+      voiced = await fitNarrationDuration(voiced, {
+        slides,
+        scriptProvider: providers.script,
+        voiceScript,
+        ctx,
+        request: { ...scriptOptions, language },
+        translation,
+        targetSeconds: settings.duration,
+        settings: settings.durationFit,
+        onUpdate: (updated, pass) => apply(updated, progressFrom + Math.floor(progressSpan * (0.75 + 0.25 * pass / passes))),
+      });
+    }
+    return voiced;
+  };
+
+  const primary = await voiceTrack(narrations, settings.language, PROGRESS.voicing, (updated, progress) =>
+    hooks.onNarrations?.(updated, progress));
+
+  // Translate the final primary script, so duration-fitting rewrites carry over to every language
+  let tracks: NarrationTrack[] = settings.translations.map(t => ({ language: t.language, narrations: [] }));
+  hooks.onTracks?.(tracks, PROGRESS.voicing + progressSpan);
+  for (let k = 0; k < settings.translations.length; k++) {
+    const language = settings.translations[k].language;
+    const applyTrack = (updated: NarrationSegment[], progress: number) => {
+      tracks = tracks.map(t => t.language === language ? { ...t, narrations: updated } : t);
+      hooks.onTracks?.(tracks, progress);
+    };
+
+    const translation: TranslationRequest = {
+      scripts: primary.map(n => ({ slideIndex: n.slideIndex, script: n.script })),
+      from: settings.language,
+      to: language,
+      style: settings.style,
+    };
+    let translated: ScriptItem[];
+    try {
+      translated = await providers.script.translateScripts(translation);
+    } catch (err) {
+      // A few untranslated slides should not sink the whole track
+      if (!(err instanceof ScriptGenerationError)) throw err;
+      console.warn(err.message);
+      translated = err.items;
+    }
+    const segments: NarrationSegment[] = translated.map(item => ({ slideIndex: item.slideIndex, script: item.script, status: 'stale' }));
+    // Slides the model skipped keep the source text, unvoiced, so they can be rewritten from the player
+    const missing: NarrationSegment[] = primary
+      .filter(n => !translated.some(t => t.slideIndex === n.slideIndex))
+      .map(n => ({ slideIndex: n.slideIndex, script: n.script, status: 'stale' }));
+    const withMissing = (voiced: NarrationSegment[]) =>
+      [...voiced, ...missing].sort((a, b) => a.slideIndex - b.slideIndex);
+
+    await voiceTrack(segments, language, PROGRESS.voicing + Math.floor((k + 1) * progressSpan), (updated, progress) =>
+      applyTrack(withMissing(updated), progress), translation);
+  }
+
+  return { slides, narrations: primary, tracks };
+};
+
+export const runPipeline = async (
+  files: File[],
+  settings: ProjectSettings,
+  providers: PipelineProviders,
+  ctx: BaseAudioContext,
+  hooks: PipelineHooks = {}
+): Promise<PipelineResult> => {
+  hooks.onStep?.('parsing', PROGRESS.parsing);
+  const slides = await parseDeck(files, fraction =>
+    hooks.onStep?.('parsing', PROGRESS.parsing + Math.floor(fraction * (PROGRESS.scripting - PROGRESS.parsing))));
+  hooks.onSlides?.(slides);
+  const result = await generateNarration(slides, settings, providers, ctx, hooks);
+  hooks.onStep?.('ready', 100);
+  return result;
+};
+
+/**
+ * Mono mix of one narration track (plus the music bed) at the narration's
+ * own sample rate, or null when nothing has been voiced.
+ */
+export const renderNarrationAudio = async (
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  music?: MusicBed
+): Promise<AudioBuffer | null> => {
+  const voiced = narrations.find(n => n.audioBuffer);
+  if (!voiced) return null;
+  return renderPresentationAudio(buildTimeline(slides, narrations), voiced.audioBuffer!.sampleRate, 1, music);
+};
+
+export const buildSubtitleFile = (
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  format: 'srt' | 'vtt',
+  dialogue?: ProjectSettings['dialogue']
+): string | null => {
+  const cues = buildSubtitleCues(buildTimeline(slides, narrations), dialogue);
+  if (cues.length === 0) return null;
+  return format === 'srt' ? toSrt(cues) : toWebVtt(cues);
+};
+
+export type ChapterFormat = 'vtt' | 'youtube' | 'json';
+
+/**
+ * Chapter markers for one narration track: a WebVTT chapters track, a
+ * YouTube description list or the JSON timeline manifest. Null when there is
+ * nothing to mark, or too few chapters for YouTube.
+ */
+export const buildChapterFile = (
+  slides: SlideData[],
+  narrations: NarrationSegment[],
+  format: ChapterFormat,
+  language: AppLanguage
+): string | null => {
+  const timeline = buildTimeline(slides, narrations);
+  if (timeline.length === 0) return null;
+  if (format === 'json') return JSON.stringify(buildTimelineManifest(timeline, language), null, 2);
+  const chapters = buildChapters(timeline);
+  return format === 'vtt' ? toWebVttChapters(chapters) : toYouTubeChapters(chapters);
+};
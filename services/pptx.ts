@@ -0,0 +1,462 @@
+import JSZip from 'jszip';
+import { SlideData } from '../types';
+import { MODEL_IMAGE_EDGE, getSourceFile, registerSourceFile, scaleSlideImage } from './slideSources';
+
+const EMU_PER_POINT = 12700;
+const DEFAULT_INSET_X = 91440;
+const DEFAULT_INSET_Y = 45720;
+
+const REL_NOTES = '/notesSlide';
+const REL_LAYOUT = '/slideLayout';
+const REL_MASTER = '/slideMaster';
+const REL_THEME = '/theme';
+
+interface Rect { x: number; y: number; w: number; h: number }
+
+interface Part {
+  path: string;
+  doc: Document;
+  rels: Map<string, { type: string; target: string }>;
+}
+
+interface RenderContext {
+  zip: JSZip;
+  ctx: OffscreenCanvasRenderingContext2D;
+  scale: number; // px per EMU
+  colors: Map<string, string>;
+  layout: Part | null;
+  master: Part | null;
+}
+
+// --- XML helpers -----------------------------------------------------------
+
+const children = (el: Element | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.children).filter(c => c.localName === name) : [];
+
+const child = (el: Element | null | undefined, name: string): Element | null =>
+  children(el, name)[0] || null;
+
+const descendants = (el: Element | Document | null | undefined, name: string): Element[] =>
+  el ? Array.from(el.getElementsByTagNameNS('*', name)) : [];
+
+const path = (el: Element | null | undefined, ...names: string[]): Element | null =>
+  names.reduce<Element | null>((acc, n) => child(acc, n), el || null);
+
+const relId = (el: Element | null): string | null =>
+  el ? (el.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'embed')
+    || el.getAttribute('r:embed') || el.getAttribute('r:id')) : null;
+
+const resolvePath = (base: string, target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  const parts = base.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+};
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml');
+
+const loadPart = async (zip: JSZip, partPath: string): Promise<Part | null> => {
+  const file = zip.file(partPath);
+  if (!file) return null;
+  const doc = parseXml(await file.async('string'));
+  const rels = new Map<string, { type: string; target: string }>();
+  const relsPath = partPath.replace(/([^/]+)$/, '_rels/$1.rels');
+  const relsFile = zip.file(relsPath);
+  if (relsFile) {
+    for (const rel of descendants(parseXml(await relsFile.async('string')), 'Relationship')) {
+      rels.set(rel.getAttribute('Id') || '', {
+        type: rel.getAttribute('Type') || '',
+        target: resolvePath(partPath, rel.getAttribute('Target') || ''),
+      });
+    }
+  }
+  return { path: partPath, doc, rels };
+};
+
+const relByType = (part: Part | null, suffix: string): string | null => {
+  if (!part) return null;
+  for (const rel of part.rels.values()) {
+    if (rel.type.endsWith(suffix)) return rel.target;
+  }
+  return null;
+};
+
+// --- Colors ------------------------------------------------------------------
+
+const SCHEME_ALIASES: Record<string, string> = { tx1: 'dk1', bg1: 'lt1', tx2: 'dk2', bg2: 'lt2' };
+
+const readThemeColors = (theme: Part | null): Map<string, string> => {
+  const colors = new Map<string, string>();
+  const scheme = descendants(theme?.doc, 'clrScheme')[0];
+  for (const entry of Array.from(scheme?.children || [])) {
+    const srgb = child(entry, 'srgbClr')?.getAttribute('val') || child(entry, 'sysClr')?.getAttribute('lastClr');
+    if (srgb) colors.set(entry.localName, `#${srgb}`);
+  }
+  return colors;
+};
+
+const readColor = (fill: Element | null, colors: Map<string, string>): string | null => {
+  if (!fill) return null;
+  const srgb = child(fill, 'srgbClr')?.getAttribute('val');
+  if (srgb) return `#${srgb}`;
+  const scheme = child(fill, 'schemeClr')?.getAttribute('val');
+  if (scheme) return colors.get(SCHEME_ALIASES[scheme] || scheme) || null;
+  const sys = child(fill, 'sysClr')?.getAttribute('lastClr');
+  return sys ? `#${sys}` : null;
+};
+
+// --- Geometry ----------------------------------------------------------------
+
+const readXfrm = (xfrm: Element | null): Rect | null => {
+  const off = child(xfrm, 'off');
+  const ext = child(xfrm, 'ext');
+  if (!off || !ext) return null;
+  return {
+    x: Number(off.getAttribute('x')),
+    y: Number(off.getAttribute('y')),
+    w: Number(ext.getAttribute('cx')),
+    h: Number(ext.getAttribute('cy')),
+  };
+};
+
+const placeholderOf = (shape: Element): Element | null =>
+  path(shape, 'nvSpPr', 'nvPr', 'ph') || path(shape, 'nvPicPr', 'nvPr', 'ph');
+
+/**
+ * Placeholders usually leave their position to the slide layout or master;
+ * look them up there by index, then by type.
+ */
+const findInheritedShape = (ph: Element, parts: (Part | null)[]): Element | null => {
+  const idx = ph.getAttribute('idx');
+  const type = ph.getAttribute('type') || 'body';
+  for (const part of parts) {
+    const candidates = descendants(part?.doc, 'sp').filter(sp => placeholderOf(sp));
+    const match = candidates.find(sp => idx !== null && placeholderOf(sp)!.getAttribute('idx') === idx)
+      || candidates.find(sp => (placeholderOf(sp)!.getAttribute('type') || 'body') === type);
+    if (match) return match;
+  }
+  return null;
+};
+
+const shapeRect = (shape: Element, rc: RenderContext): Rect | null => {
+  const own = readXfrm(path(shape, 'spPr', 'xfrm'));
+  if (own) return own;
+  const ph = placeholderOf(shape);
+  const inherited = ph ? findInheritedShape(ph, [rc.layout, rc.master]) : null;
+  return inherited ? readXfrm(path(inherited, 'spPr', 'xfrm')) : null;
+};
+
+// --- Text --------------------------------------------------------------------
+
+const paragraphText = (p: Element): string =>
+  Array.from(p.children)
+    .map(r => (r.localName === 'r' || r.localName === 'fld') ? (child(r, 't')?.textContent || '') : r.localName === 'br' ? '\n' : '')
+    .join('');
+
+const bodyText = (el: Element | null): string =>
+  children(child(el, 'txBody'), 'p').map(paragraphText).filter(t => t.trim()).join('\n');
+
+const drawTextBody = (shape: Element, rect: Rect, rc: RenderContext) => {
+  const body = child(shape, 'txBody');
+  if (!body) return;
+  const { ctx, scale } = rc;
+  const ph = placeholderOf(shape);
+  const phType = ph?.getAttribute('type') || (ph ? 'body' : null);
+  const isTitle = phType === 'title' || phType === 'ctrTitle';
+  const bodyPr = child(body, 'bodyPr');
+  const inset = (attr: string, fallback: number) => Number(bodyPr?.getAttribute(attr) ?? fallback);
+  const left = (rect.x + inset('lIns', DEFAULT_INSET_X)) * scale;
+  const top = (rect.y + inset('tIns', DEFAULT_INSET_Y)) * scale;
+  const width = (rect.w - inset('lIns', DEFAULT_INSET_X) - inset('rIns', DEFAULT_INSET_X)) * scale;
+  const height = (rect.h - inset('tIns', DEFAULT_INSET_Y) - inset('bIns', DEFAULT_INSET_Y)) * scale;
+
+  const lines: { text: string; font: string; size: number; color: string; align: CanvasTextAlign }[] = [];
+  for (const p of children(body, 'p')) {
+    const runs = children(p, 'r');
+    const rPr = child(runs[0], 'rPr') || child(p, 'endParaRPr');
+    const pointSize = Number(rPr?.getAttribute('sz') || (isTitle ? 4400 : 1800)) / 100;
+    const size = pointSize * EMU_PER_POINT * scale;
+    const bold = rPr?.getAttribute('b') === '1' || isTitle;
+    const typeface = child(rPr, 'latin')?.getAttribute('typeface');
+    const font = `${bold ? 'bold ' : ''}${size}px ${typeface && !typeface.startsWith('+') ? `"${typeface}", ` : ''}sans-serif`;
+    const color = readColor(child(rPr, 'solidFill'), rc.colors) || rc.colors.get('dk1') || '#000000';
+    const pPr = child(p, 'pPr');
+    const algn = pPr?.getAttribute('algn');
+    const align: CanvasTextAlign = algn === 'ctr' ? 'center' : algn === 'r' ? 'right' : (phType === 'ctrTitle' ? 'center' : 'left');
+    const bullet = phType === 'body' && !child(pPr, 'buNone') ? '• ' : (child(pPr, 'buChar') ? `${child(pPr, 'buChar')!.getAttribute('char')} ` : '');
+    const text = paragraphText(p);
+
+    ctx.font = font;
+    for (const [i, segment] of text.split('\n').entries()) {
+      const prefix = i === 0 && segment.trim() ? bullet : '';
+      // Greedy word wrap inside the text box
+      let line = '';
+      for (const word of `${prefix}${segment}`.split(/(\s+)/)) {
+        const next = line + word;
+        if (line.trim() && ctx.measureText(next).width > width) {
+          lines.push({ text: line.trimEnd(), font, size, color, align });
+          line = word.trimStart();
+        } else {
+          line = next;
+        }
+      }
+      lines.push({ text: line, font, size, color, align });
+    }
+  }
+
+  const lineHeight = (l: { size: number }) => l.size * 1.2;
+  const total = lines.reduce((acc, l) => acc + lineHeight(l), 0);
+  const anchor = bodyPr?.getAttribute('anchor') || (isTitle ? 'ctr' : 't');
+  let y = anchor === 'ctr' ? top + (height - total) / 2 : anchor === 'b' ? top + height - total : top;
+
+  ctx.save();
+  ctx.textBaseline = 'top';
+  for (const line of lines) {
+    ctx.font = line.font;
+    ctx.fillStyle = line.color;
+    ctx.textAlign = line.align;
+    const x = line.align === 'center' ? left + width / 2 : line.align === 'right' ? left + width : left;
+    ctx.fillText(line.text, x, y);
+    y += lineHeight(line);
+  }
+  ctx.restore();
+};
+
+// --- Drawing -----------------------------------------------------------------
+
+const loadImage = async (zip: JSZip, imagePath: string): Promise<ImageBitmap | null> => {
+  const file = zip.file(imagePath);
+  // EMF/WMF previews and other vector formats cannot be decoded by the browser
+  if (!file || !/\.(png|jpe?g|gif|bmp|webp)$/i.test(imagePath)) return null;
+  try {
+    return await createImageBitmap(new Blob([await file.async('arraybuffer')]));
+  } catch {
+    return null;
+  }
+};
+
+const drawBackground = async (parts: (Part | null)[], rc: RenderContext, width: number, height: number) => {
+  const { ctx } = rc;
+  ctx.fillStyle = rc.colors.get('lt1') || '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  for (const part of parts) {
+    const bgPr = descendants(part?.doc, 'bgPr')[0];
+    if (!bgPr) continue;
+    const color = readColor(child(bgPr, 'solidFill'), rc.colors);
+    if (color) {
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, width, height);
+      return;
+    }
+    const embed = relId(path(bgPr, 'blipFill', 'blip'));
+    const target = embed ? part!.rels.get(embed)?.target : null;
+    const image = target ? await loadImage(rc.zip, target) : null;
+    if (image) {
+      ctx.drawImage(image, 0, 0, width, height);
+      image.close();
+      return;
+    }
+  }
+};
+
+const drawShapeTree = async (tree: Element, part: Part, rc: RenderContext) => {
+  const { ctx, scale } = rc;
+  for (const node of Array.from(tree.children)) {
+    switch (node.localName) {
+      case 'sp': {
+        const rect = shapeRect(node, rc);
+        if (!rect) break;
+        const spPr = child(node, 'spPr');
+        const fill = readColor(child(spPr, 'solidFill'), rc.colors);
+        if (fill) {
+          ctx.fillStyle = fill;
+          if (path(spPr, 'prstGeom')?.getAttribute('prst') === 'ellipse') {
+            ctx.beginPath();
+            ctx.ellipse((rect.x + rect.w / 2) * scale, (rect.y + rect.h / 2) * scale, (rect.w / 2) * scale, (rect.h / 2) * scale, 0, 0, Math.PI * 2);
+            ctx.fill();
+          } else {
+            ctx.fillRect(rect.x * scale, rect.y * scale, rect.w * scale, rect.h * scale);
+          }
+        }
+        drawTextBody(node, rect, rc);
+        break;
+      }
+      case 'pic': {
+        const rect = readXfrm(path(node, 'spPr', 'xfrm'));
+        const embed = relId(path(node, 'blipFill', 'blip'));
+        const target = embed ? part.rels.get(embed)?.target : null;
+        const image = rect && target ? await loadImage(rc.zip, target) : null;
+        if (rect && image) {
+          ctx.drawImage(image, rect.x * scale, rect.y * scale, rect.w * scale, rect.h * scale);
+          image.close();
+        }
+        break;
+      }
+      case 'grpSp': {
+        // Map the group's child coordinate space onto its placement on the slide
+        const xfrm = path(node, 'grpSpPr', 'xfrm');
+        const outer = readXfrm(xfrm);
+        const chOff = child(xfrm, 'chOff');
+        const chExt = child(xfrm, 'chExt');
+        ctx.save();
+        if (outer && chOff && chExt && Number(chExt.getAttribute('cx')) > 0 && Number(chExt.getAttribute('cy')) > 0) {
+          const sx = outer.w / Number(chExt.getAttribute('cx'));
+          const sy = outer.h / Number(chExt.getAttribute('cy'));
+          ctx.translate(outer.x * scale, outer.y * scale);
+          ctx.scale(sx, sy);
+          ctx.translate(-Number(chOff.getAttribute('x')) * scale, -Number(chOff.getAttribute('y')) * scale);
+        }
+        await drawShapeTree(node, part, rc);
+        ctx.restore();
+        break;
+      }
+    }
+  }
+};
+
+const collectSlideText = (doc: Document): string =>
+  descendants(doc, 'p')
+    .filter(p => p.namespaceURI?.includes('drawingml'))
+    .map(paragraphText)
+    .map(t => t.trim())
+    .filter(Boolean)
+    .join(' ');
+
+const collectNotes = (notes: Part | null): string => {
+  if (!notes) return '';
+  return descendants(notes.doc, 'sp')
+    .filter(sp => placeholderOf(sp)?.getAttribute('type') === 'body')
+    .map(sp => bodyText(sp))
+    .filter(Boolean)
+    .join('\n')
+    .trim();
+};
+
+interface PptxDeck {
+  zip: JSZip;
+  presentation: Part;
+  width: number; // EMU
+  height: number; // EMU
+}
+
+interface SlideParts {
+  slide: Part;
+  layout: Part | null;
+  master: Part | null;
+  theme: Part | null;
+  notes: Part | null;
+}
+
+const openPptx = async (data: ArrayBuffer): Promise<PptxDeck> => {
+  const zip = await JSZip.loadAsync(data);
+  const presentation = await loadPart(zip, 'ppt/presentation.xml');
+  if (!presentation) throw new Error("올바른 PowerPoint(.pptx) 파일이 아닙니다.");
+  const sldSz = descendants(presentation.doc, 'sldSz')[0];
+  return {
+    zip,
+    presentation,
+    width: Number(sldSz?.getAttribute('cx') || 12192000),
+    height: Number(sldSz?.getAttribute('cy') || 6858000),
+  };
+};
+
+// Slide numbers count every slide in the deck, hidden ones included
+const loadSlideParts = async (deck: PptxDeck, slideNumber: number): Promise<SlideParts | null> => {
+  const sldId = descendants(deck.presentation.doc, 'sldId')[slideNumber - 1];
+  const target = sldId ? deck.presentation.rels.get(relId(sldId) || '')?.target : null;
+  const slide = target ? await loadPart(deck.zip, target) : null;
+  if (!slide) return null;
+
+  const layoutPath = relByType(slide, REL_LAYOUT);
+  const layout = layoutPath ? await loadPart(deck.zip, layoutPath) : null;
+  const masterPath = relByType(layout, REL_MASTER);
+  const master = masterPath ? await loadPart(deck.zip, masterPath) : null;
+  const themePath = relByType(master, REL_THEME);
+  const theme = themePath ? await loadPart(deck.zip, themePath) : null;
+  const notesPath = relByType(slide, REL_NOTES);
+  const notes = notesPath ? await loadPart(deck.zip, notesPath) : null;
+  return { slide, layout, master, theme, notes };
+};
+
+/**
+ * Draws one slide as large as fits in maxWidth x maxHeight. The XML has to
+ * be read with DOMParser, which workers lack, so drawing stays on this
+ * thread; it happens at the requested size only, and the encoding and
+ * thumbnail are left to the image worker.
+ */
+const drawSlide = async (deck: PptxDeck, parts: SlideParts, maxWidth: number, maxHeight: number): Promise<OffscreenCanvas> => {
+  const scale = Math.min(maxWidth / deck.width, maxHeight / deck.height);
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(deck.width * scale)), Math.max(1, Math.round(deck.height * scale)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not create canvas context for PPTX rendering");
+
+  const rc: RenderContext = { zip: deck.zip, ctx, scale, colors: readThemeColors(parts.theme), layout: parts.layout, master: parts.master };
+  await drawBackground([parts.slide, parts.layout, parts.master], rc, canvas.width, canvas.height);
+  const tree = descendants(parts.slide.doc, 'spTree')[0];
+  if (tree) await drawShapeTree(tree, parts.slide, rc);
+  return canvas;
+};
+
+/**
+ * Reads a PowerPoint deck: renders every slide to a model-sized image and a
+ * thumbnail with a lightweight DrawingML renderer (backgrounds, filled
+ * shapes, text boxes, pictures and groups), and extracts the slide text plus
+ * the speaker notes. The deck is kept so export can draw it at full size.
+ */
+export const processPptx = async (file: File, onSlide?: (slide: number, slideCount: number) => void): Promise<SlideData[]> => {
+  const id = crypto.randomUUID();
+  const data = await file.arrayBuffer();
+  const deck = await openPptx(data);
+  registerSourceFile(id, data);
+
+  const slideCount = descendants(deck.presentation.doc, 'sldId').length;
+  const slides: SlideData[] = [];
+  for (let number = 1; number <= slideCount; number++) {
+    const parts = await loadSlideParts(deck, number);
+    // Hidden slides are skipped, as in a slideshow
+    if (!parts || parts.slide.doc.documentElement.getAttribute('show') === '0') continue;
+
+    const canvas = await drawSlide(deck, parts, MODEL_IMAGE_EDGE, MODEL_IMAGE_EDGE);
+    const { image, thumbnail } = await scaleSlideImage(canvas.transferToImageBitmap(), 'image/png');
+    slides.push({
+      index: slides.length,
+      image,
+      thumbnail,
+      text: collectSlideText(parts.slide.doc),
+      notes: collectNotes(parts.notes) || undefined,
+      source: { kind: 'pptx', deck: id, page: number },
+    });
+    onSlide?.(number, slideCount);
+  }
+  return slides;
+};
+
+// Decks parsed for the current export; closePptxDecks lets them go
+const openDecks = new Map<string, Promise<PptxDeck>>();
+
+/**
+ * Renders a PowerPoint slide again as large as fits in width x height, for
+ * export. Returns null when the slide did not come from a deck still loaded.
+ */
+export const renderPptxSlide = async (slide: SlideData, width: number, height: number): Promise<ImageBitmap | null> => {
+  if (slide.source?.kind !== 'pptx') return null;
+  const { deck: id, page } = slide.source;
+  const data = getSourceFile(id);
+  if (!data) return null;
+  if (!openDecks.has(id)) openDecks.set(id, openPptx(data));
+  const deck = await openDecks.get(id)!;
+  const parts = await loadSlideParts(deck, page);
+  return parts ? (await drawSlide(deck, parts, width, height)).transferToImageBitmap() : null;
+};
+
+export const closePptxDecks = () => {
+  openDecks.clear();
+};
+
+export const isPptxFile = (file: File): boolean =>
+  file.type === 'application/vnd.openxmlformats-officedocument.presentationml.presentation'
+  || file.name.toLowerCase().endsWith('.pptx');
@@ -0,0 +1,318 @@
+import JSZip from 'jszip';
+import { AppLanguage, AppState, NarrationSegment, ProjectSettings, ProjectSnapshot, SerializedAudio, SerializedNarration, SlideData, SlideSourceKind, WordTiming } from '../types';
+import { audioBufferToWav, wavToAudioBuffer } from './audioUtils';
+import { attachWordTimings, getWordTimings } from './speech';
+import { DEFAULT_DURATION_FIT } from './durationFit';
+import { DEFAULT_DIALOGUE } from './dialogue';
+import { DEFAULT_CAPTION_STYLE } from './subtitles';
+import { DEFAULT_SLIDE_EFFECTS } from './frameRenderer';
+import { DEFAULT_MUSIC_SETTINGS } from './music';
+import { DEFAULT_AUDIO_EXPORT } from './audioExport';
+import { DEFAULT_SCRIPT_PROVIDER } from './scriptProviders';
+import { DEFAULT_SPEECH_PROVIDER } from './speechProviders';
+import { getSourceFile, registerSourceFile } from './slideSources';
+
+export const PROJECT_FORMAT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.slidestream';
+
+const MANIFEST_PATH = 'project.json';
+
+interface ManifestNarration {
+  slideIndex: number;
+  script: string;
+  status?: NarrationSegment['status'];
+  audio?: string;
+  words?: WordTiming[];
+}
+
+interface BundleManifest {
+  version: number;
+  savedAt: number;
+  settings: ProjectSettings;
+  slides: { index: number; text: string; notes?: string; analysis?: SlideData['analysis']; image: string; thumbnail?: string; source?: SlideData['source']; card?: SlideData['card']; effects?: SlideData['effects'] }[];
+  narrations: ManifestNarration[];
+  tracks?: { language: AppLanguage; narrations: ManifestNarration[] }[];
+  musicUpload?: { name: string; audio: string };
+  decks?: { id: string; path: string }[];
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  duration: 120,
+  style: 'An atmospheric tone that reveals the truth',
+  language: 'ko',
+  translations: [],
+  notesMode: 'polish',
+  dialogue: DEFAULT_DIALOGUE,
+  lexicon: [],
+  durationFit: DEFAULT_DURATION_FIT,
+  aspectRatio: '16:9',
+  resolutionScale: 4,
+  videoContainer: 'mp4',
+  captionStyle: DEFAULT_CAPTION_STYLE,
+  effects: DEFAULT_SLIDE_EFFECTS,
+  music: DEFAULT_MUSIC_SETTINGS,
+  audioExport: DEFAULT_AUDIO_EXPORT,
+  scriptProvider: DEFAULT_SCRIPT_PROVIDER,
+  speechProvider: DEFAULT_SPEECH_PROVIDER,
+};
+
+export const pickProjectSettings = (state: ProjectSettings): ProjectSettings => ({
+  duration: state.duration,
+  style: state.style,
+  language: state.language,
+  translations: state.translations,
+  notesMode: state.notesMode,
+  dialogue: state.dialogue,
+  lexicon: state.lexicon,
+  durationFit: state.durationFit,
+  aspectRatio: state.aspectRatio,
+  resolutionScale: state.resolutionScale,
+  videoContainer: state.videoContainer,
+  captionStyle: state.captionStyle,
+  effects: state.effects,
+  music: state.music,
+  audioExport: state.audioExport,
+  scriptProvider: state.scriptProvider,
+  speechProvider: state.speechProvider,
+});
+
+const serializeAudio = (buffer: AudioBuffer): SerializedAudio => ({
+  sampleRate: buffer.sampleRate,
+  channels: Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c).slice()),
+});
+
+const deserializeAudio = (audio: SerializedAudio, ctx: BaseAudioContext): AudioBuffer => {
+  const buffer = ctx.createBuffer(audio.channels.length, Math.max(audio.channels[0]?.length || 0, 1), audio.sampleRate);
+  audio.channels.forEach((data, c) => buffer.getChannelData(c).set(data));
+  return buffer;
+};
+
+/**
+ * Captures everything needed to reopen the current project, with audio copied
+ * out of the AudioBuffers so the snapshot can be cloned into IndexedDB.
+ */
+const serializeNarration = (n: NarrationSegment): SerializedNarration => ({
+  slideIndex: n.slideIndex,
+  script: n.script,
+  status: n.status,
+  audio: n.audioBuffer ? serializeAudio(n.audioBuffer) : undefined,
+  words: getWordTimings(n.audioBuffer),
+});
+
+const deserializeNarration = (n: SerializedNarration, ctx: BaseAudioContext): NarrationSegment => {
+  const audioBuffer = n.audio ? attachWordTimings(deserializeAudio(n.audio, ctx), n.words) : undefined;
+  // A segment that was mid-voicing when the snapshot was taken has no usable audio
+  const status = audioBuffer ? (n.status === 'voicing' ? 'done' : n.status) : 'stale';
+  return { slideIndex: n.slideIndex, script: n.script, status, audioBuffer };
+};
+
+// The source files still in memory for these slides, so a reopened project exports at full resolution
+const collectDecks = (slides: SlideData[]): { id: string; data: ArrayBuffer }[] => {
+  const ids = new Set(slides.map(s => s.source?.deck).filter((id): id is string => !!id));
+  return [...ids].flatMap(id => {
+    const data = getSourceFile(id);
+    return data ? [{ id, data }] : [];
+  });
+};
+
+export type SnapshotSource = Pick<AppState, keyof ProjectSettings | 'slides' | 'narrations' | 'tracks' | 'musicUpload'>;
+
+export const createSnapshot = (state: SnapshotSource): ProjectSnapshot => ({
+  version: PROJECT_FORMAT_VERSION,
+  savedAt: Date.now(),
+  settings: pickProjectSettings(state),
+  slides: state.slides,
+  narrations: state.narrations.map(serializeNarration),
+  tracks: state.tracks.map(t => ({ language: t.language, narrations: t.narrations.map(serializeNarration) })),
+  musicUpload: state.musicUpload
+    ? { name: state.musicUpload.name, audio: serializeAudio(state.musicUpload.buffer) }
+    : undefined,
+  decks: collectDecks(state.slides),
+});
+
+export const restoreSnapshot = (
+  snapshot: ProjectSnapshot,
+  ctx: BaseAudioContext
+): SnapshotSource => {
+  snapshot.decks?.forEach(deck => registerSourceFile(deck.id, deck.data));
+  return {
+    ...snapshot.settings,
+    // Fields added after a project was saved fall back to their defaults
+    translations: snapshot.settings.translations || [],
+    durationFit: snapshot.settings.durationFit || DEFAULT_DURATION_FIT,
+    dialogue: snapshot.settings.dialogue || DEFAULT_DIALOGUE,
+    lexicon: snapshot.settings.lexicon || [],
+    audioExport: snapshot.settings.audioExport || DEFAULT_AUDIO_EXPORT,
+    slides: snapshot.slides,
+    narrations: snapshot.narrations.map(n => deserializeNarration(n, ctx)),
+    tracks: (snapshot.tracks || []).map(t => ({ language: t.language, narrations: t.narrations.map(n => deserializeNarration(n, ctx)) })),
+    musicUpload: snapshot.musicUpload
+      ? { name: snapshot.musicUpload.name, buffer: deserializeAudio(snapshot.musicUpload.audio, ctx) }
+      : null,
+  };
+};
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+const extensionForMime = (mime: string): string => {
+  switch (mime) {
+    case 'image/jpeg': return 'jpg';
+    case 'image/webp': return 'webp';
+    case 'image/gif': return 'gif';
+    default: return 'png';
+  }
+};
+
+// Where a slide's image is stored in a project bundle
+export const getSlideImagePath = (slide: SlideData): string => {
+  const mime = slide.image.match(/^data:([^;,]+)/)?.[1] || '';
+  return `slides/${String(slide.index).padStart(3, '0')}.${extensionForMime(mime)}`;
+};
+
+// Source files are read back by their manifest path; the extension is only for people
+const DECK_EXTENSIONS: Record<SlideSourceKind, string> = { pdf: 'pdf', pptx: 'pptx', image: 'img' };
+
+/**
+ * Packs a snapshot into a single zip bundle: project.json with the settings
+ * and scripts, the slide images under slides/, their source files under
+ * decks/ and one WAV per segment under audio/ (translated tracks under
+ * audio/<language>/).
+ */
+export const exportProjectBundle = async (snapshot: ProjectSnapshot, ctx: BaseAudioContext): Promise<Blob> => {
+  const zip = new JSZip();
+  const manifest: BundleManifest = {
+    version: snapshot.version,
+    savedAt: snapshot.savedAt,
+    settings: snapshot.settings,
+    slides: [],
+    narrations: [],
+  };
+
+  for (const slide of snapshot.slides) {
+    const blob = await dataUrlToBlob(slide.image);
+    const base = `slides/${String(slide.index).padStart(3, '0')}`;
+    const path = getSlideImagePath(slide);
+    zip.file(path, blob);
+    let thumbnailPath: string | undefined;
+    if (slide.thumbnail) {
+      const thumbnail = await dataUrlToBlob(slide.thumbnail);
+      thumbnailPath = `${base}.thumb.${extensionForMime(thumbnail.type)}`;
+      zip.file(thumbnailPath, thumbnail);
+    }
+    manifest.slides.push({ index: slide.index, text: slide.text, notes: slide.notes, analysis: slide.analysis, image: path, thumbnail: thumbnailPath, source: slide.source, card: slide.card, effects: slide.effects });
+  }
+
+  manifest.decks = (snapshot.decks || []).map(deck => {
+    const kind = snapshot.slides.find(s => s.source?.deck === deck.id)?.source?.kind || 'pdf';
+    const path = `decks/${deck.id}.${DECK_EXTENSIONS[kind]}`;
+    zip.file(path, deck.data);
+    return { id: deck.id, path };
+  });
+
+  const packNarrations = (narrations: SerializedNarration[], dir: string): ManifestNarration[] =>
+    narrations.map(narration => {
+      let audioPath: string | undefined;
+      if (narration.audio) {
+        audioPath = `${dir}/${String(narration.slideIndex).padStart(3, '0')}.wav`;
+        zip.file(audioPath, audioBufferToWav(deserializeAudio(narration.audio, ctx)));
+      }
+      return { slideIndex: narration.slideIndex, script: narration.script, status: narration.status, audio: audioPath, words: narration.words };
+    });
+
+  manifest.narrations = packNarrations(snapshot.narrations, 'audio');
+  manifest.tracks = (snapshot.tracks || []).map(track => ({
+    language: track.language,
+    narrations: packNarrations(track.narrations, `audio/${track.language}`),
+  }));
+
+  if (snapshot.musicUpload) {
+    manifest.musicUpload = { name: snapshot.musicUpload.name, audio: 'music/track.wav' };
+    zip.file(manifest.musicUpload.audio, audioBufferToWav(deserializeAudio(snapshot.musicUpload.audio, ctx)));
+  }
+
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+export const importProjectBundle = async (file: Blob, ctx: BaseAudioContext): Promise<ProjectSnapshot> => {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_PATH);
+  if (!manifestFile) throw new Error("프로젝트 파일이 아닙니다. (project.json 없음)");
+
+  const manifest: BundleManifest = JSON.parse(await manifestFile.async('string'));
+  if (manifest.version > PROJECT_FORMAT_VERSION) {
+    throw new Error(`이 프로젝트 파일은 더 최신 버전(v${manifest.version})에서 저장되었습니다.`);
+  }
+
+  const readImage = async (path: string): Promise<string> => {
+    const imageFile = zip.file(path);
+    if (!imageFile) throw new Error(`슬라이드 이미지가 없습니다: ${path}`);
+    const ext = path.split('.').pop() || 'png';
+    const mime = ext === 'jpg' ? 'image/jpeg' : `image/${ext}`;
+    return blobToDataUrl(new Blob([await imageFile.async('arraybuffer')], { type: mime }));
+  };
+
+  const slides: SlideData[] = [];
+  for (const slide of manifest.slides) {
+    slides.push({
+      index: slide.index,
+      text: slide.text,
+      notes: slide.notes,
+      analysis: slide.analysis,
+      image: await readImage(slide.image),
+      thumbnail: slide.thumbnail ? await readImage(slide.thumbnail) : undefined,
+      source: slide.source,
+      card: slide.card,
+      effects: slide.effects,
+    });
+  }
+
+  const decks: { id: string; data: ArrayBuffer }[] = [];
+  for (const deck of manifest.decks || []) {
+    const deckFile = zip.file(deck.path);
+    if (deckFile) decks.push({ id: deck.id, data: await deckFile.async('arraybuffer') });
+  }
+
+  const unpackNarrations = async (list: ManifestNarration[]): Promise<SerializedNarration[]> => {
+    const narrations: SerializedNarration[] = [];
+    for (const narration of list) {
+      const audioFile = narration.audio ? zip.file(narration.audio) : null;
+      const audio = audioFile
+        ? serializeAudio(wavToAudioBuffer(await audioFile.async('arraybuffer'), ctx))
+        : undefined;
+      narrations.push({ slideIndex: narration.slideIndex, script: narration.script, status: narration.status, audio, words: narration.words });
+    }
+    return narrations;
+  };
+
+  const narrations = await unpackNarrations(manifest.narrations);
+  const tracks = [];
+  for (const track of manifest.tracks || []) {
+    tracks.push({ language: track.language, narrations: await unpackNarrations(track.narrations) });
+  }
+
+  const musicFile = manifest.musicUpload ? zip.file(manifest.musicUpload.audio) : null;
+  const musicUpload = manifest.musicUpload && musicFile
+    ? { name: manifest.musicUpload.name, audio: serializeAudio(wavToAudioBuffer(await musicFile.async('arraybuffer'), ctx)) }
+    : undefined;
+
+  return {
+    version: manifest.version,
+    savedAt: manifest.savedAt,
+    settings: manifest.settings,
+    slides,
+    narrations,
+    tracks,
+    musicUpload,
+    decks,
+  };
+};
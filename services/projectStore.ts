@@ -0,0 +1,43 @@
+import { ProjectSnapshot } from '../types';
+
+const DB_NAME = 'slidestream';
+const DB_VERSION = 1;
+const STORE_NAME = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+
+const openDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = action(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAutosave = (snapshot: ProjectSnapshot): Promise<void> =>
+  runRequest<void>('readwrite', store => store.put(snapshot, AUTOSAVE_KEY));
+
+export const loadAutosave = async (): Promise<ProjectSnapshot | null> =>
+  (await runRequest<ProjectSnapshot | undefined>('readonly', store => store.get(AUTOSAVE_KEY))) || null;
+
+export const clearAutosave = (): Promise<void> =>
+  runRequest<void>('readwrite', store => store.delete(AUTOSAVE_KEY));
@@ -0,0 +1,151 @@
+import type { HeadlessFile, HeadlessJob } from '../headless/job';
+
+/**
+ * Client for the render server (backend/server.ts), which runs the generation
+ * pipeline as queued jobs with its own API keys so they never reach the browser.
+ */
+
+export type RenderMode = 'local' | 'server';
+
+export interface RenderServerSettings {
+  mode: RenderMode;
+  url: string; // e.g. http://localhost:8787
+  token: string; // the server's access token, if it requires one
+}
+
+// A job as submitted: everything but the credentials, which the server adds
+export type RenderJobRequest = Omit<HeadlessJob, 'credentials'>;
+
+export type RenderJobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface RenderJobFile {
+  name: string;
+  size: number; // bytes
+}
+
+export interface RenderJobStatus {
+  id: string;
+  state: RenderJobState;
+  position: number; // jobs ahead in the queue, 0 once running
+  message: string; // pipeline step or export stage
+  progress: number; // percent of the current stage
+  error?: string;
+  files: RenderJobFile[];
+  createdAt: number;
+}
+
+export const DEFAULT_RENDER_SERVER: RenderServerSettings = {
+  mode: process.env.SLIDESTREAM_SERVER_URL ? 'server' : 'local',
+  url: process.env.SLIDESTREAM_SERVER_URL || 'http://localhost:8787',
+  token: '',
+};
+
+export const isFinished = (status: RenderJobStatus): boolean =>
+  status.state === 'done' || status.state === 'failed' || status.state === 'cancelled';
+
+const apiUrl = (server: RenderServerSettings, path: string): string => new URL(`/api/jobs${path}`, server.url).toString();
+
+// EventSource cannot send headers, so only the event stream carries the token in its URL
+const eventsUrl = (server: RenderServerSettings, id: string): string => {
+  const url = new URL(apiUrl(server, `/${id}/events`));
+  if (server.token) url.searchParams.set('token', server.token);
+  return url.toString();
+};
+
+const request = async (server: RenderServerSettings, path: string, init: RequestInit = {}): Promise<Response> => {
+  const headers = new Headers(init.headers);
+  if (server.token) headers.set('Authorization', `Bearer ${server.token}`);
+  let res: Response;
+  try {
+    res = await fetch(apiUrl(server, path), { ...init, headers });
+  } catch {
+    throw new Error(`렌더 서버(${server.url})에 연결할 수 없습니다.`);
+  }
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `렌더 서버 오류 (${res.status})`);
+  }
+  return res;
+};
+
+const fileToBase64 = async (file: File): Promise<string> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+  return dataUrl.slice(dataUrl.indexOf(',') + 1);
+};
+
+export const toHeadlessFile = async (file: File): Promise<HeadlessFile> => ({
+  name: file.name,
+  type: file.type || 'application/octet-stream',
+  base64: await fileToBase64(file),
+});
+
+export const submitRenderJob = async (server: RenderServerSettings, job: RenderJobRequest): Promise<RenderJobStatus> => {
+  const res = await request(server, '', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(job),
+  });
+  return res.json();
+};
+
+export const getRenderJob = async (server: RenderServerSettings, id: string): Promise<RenderJobStatus> =>
+  (await request(server, `/${id}`)).json();
+
+export const cancelRenderJob = async (server: RenderServerSettings, id: string): Promise<void> => {
+  await request(server, `/${id}`, { method: 'DELETE' });
+};
+
+export const downloadRenderFile = async (server: RenderServerSettings, id: string, name: string): Promise<Blob> =>
+  (await request(server, `/${id}/files/${encodeURIComponent(name)}`)).blob();
+
+/**
+ * Follows a job over server-sent events until it finishes, falling back to
+ * polling if the event stream drops. Resolves with the final status.
+ */
+export const watchRenderJob = (
+  server: RenderServerSettings,
+  id: string,
+  onStatus: (status: RenderJobStatus) => void
+): Promise<RenderJobStatus> => {
+  return new Promise((resolve, reject) => {
+    const finish = (status: RenderJobStatus) => {
+      onStatus(status);
+      if (status.state === 'done') resolve(status);
+      else reject(new Error(status.error || "서버 작업이 취소되었습니다."));
+    };
+
+    const poll = async () => {
+      try {
+        let status = await getRenderJob(server, id);
+        while (!isFinished(status)) {
+          onStatus(status);
+          await new Promise(r => setTimeout(r, 2000));
+          status = await getRenderJob(server, id);
+        }
+        finish(status);
+      } catch (err) {
+        reject(err);
+      }
+    };
+
+    const events = new EventSource(eventsUrl(server, id));
+    events.onmessage = (e) => {
+      const status: RenderJobStatus = JSON.parse(e.data);
+      if (!isFinished(status)) {
+        onStatus(status);
+        return;
+      }
+      events.close();
+      finish(status);
+    };
+    events.onerror = () => {
+      events.close();
+      poll();
+    };
+  });
+};
@@ -0,0 +1,187 @@
+import { ScriptProviderId, ScriptProviderSettings } from '../types';
+import { createGeminiScriptProvider, DEFAULT_GEMINI_SCRIPT_MODEL } from './gemini';
+import { ScriptItem, ScriptProvider, ScriptRequest, TranslationRequest, buildScriptPrompt, buildTranslationPrompt, describeSlide, getLengthBudget, parseScriptResponse, withScriptValidation } from './scripting';
+import { getLanguageInfo } from './languages';
+import { QuestionRequest, buildQuestionPrompt, describeFocusSlide, parseAnswerResponse } from './deckQa';
+import { AnalysisRequest, buildAnalysisPrompt, describeAnalysisSlide, parseAnalysisResponse } from './slideAnalysis';
+
+export interface ScriptProviderInfo {
+  id: ScriptProviderId;
+  label: string;
+  defaultModel: string;
+  needsGeminiKey: boolean;
+  needsEndpoint: boolean;
+}
+
+export const SCRIPT_PROVIDERS: ScriptProviderInfo[] = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: DEFAULT_GEMINI_SCRIPT_MODEL, needsGeminiKey: true, needsEndpoint: false },
+  { id: 'openai', label: 'OpenAI-compatible API', defaultModel: 'gpt-4o-mini', needsGeminiKey: false, needsEndpoint: true },
+  { id: 'mock', label: 'Offline mock (no network)', defaultModel: 'mock', needsGeminiKey: false, needsEndpoint: false },
+];
+
+export const DEFAULT_SCRIPT_PROVIDER: ScriptProviderSettings = {
+  id: 'gemini',
+  model: DEFAULT_GEMINI_SCRIPT_MODEL,
+  endpoint: 'http://localhost:11434/v1',
+  sendImages: true,
+};
+
+export const getScriptProviderInfo = (id: ScriptProviderId): ScriptProviderInfo =>
+  SCRIPT_PROVIDERS.find(p => p.id === id) || SCRIPT_PROVIDERS[0];
+
+export interface ProviderCredentials {
+  geminiKey: string;
+  endpointKey: string;
+}
+
+// Every provider is validated: missing or empty slides are requested again and transient errors retried
+export const createScriptProvider = (settings: ScriptProviderSettings, credentials: ProviderCredentials): ScriptProvider =>
+  withScriptValidation(createBaseScriptProvider(settings, credentials));
+
+const createBaseScriptProvider = (settings: ScriptProviderSettings, credentials: ProviderCredentials): ScriptProvider => {
+  switch (settings.id) {
+    case 'openai':
+      return createOpenAiScriptProvider(settings.endpoint, settings.model, credentials.endpointKey, settings.sendImages);
+    case 'mock':
+      return createMockScriptProvider();
+    default:
+      return createGeminiScriptProvider(credentials.geminiKey, settings.model || DEFAULT_GEMINI_SCRIPT_MODEL);
+  }
+};
+
+/**
+ * Talks to any server implementing the OpenAI chat completions API
+ * (OpenAI itself, vLLM, llama.cpp, Ollama, LM Studio or a test stub).
+ * Text-only models need `sendImages` turned off.
+ */
+export const createOpenAiScriptProvider = (
+  endpoint: string,
+  model: string,
+  apiKey: string,
+  sendImages: boolean
+): ScriptProvider => {
+  const complete = async (content: any[]): Promise<string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        temperature: 0.7,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Script endpoint returned ${response.status}: ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return data.choices?.[0]?.message?.content || "[]";
+  };
+
+  return {
+    generateScripts: async (request: ScriptRequest) => {
+      const content: any[] = [{ type: 'text', text: `${buildScriptPrompt(request)}\nRespond with the JSON array only.` }];
+      for (const s of request.slides) {
+        if (sendImages) content.push({ type: 'image_url', image_url: { url: s.image } });
+        content.push({ type: 'text', text: describeSlide(s, request.notesMode) });
+      }
+      return parseScriptResponse(await complete(content));
+    },
+
+    translateScripts: async (request: TranslationRequest) => {
+      const content = [{ type: 'text', text: `${buildTranslationPrompt(request)}\nRespond with the JSON array only.` }];
+      return parseScriptResponse(await complete(content));
+    },
+
+    answerQuestion: async (request: QuestionRequest) => {
+      const content: any[] = [{ type: 'text', text: `${buildQuestionPrompt(request)}\nRespond with the JSON object only.` }];
+      if (sendImages) {
+        for (const s of request.focusSlides) {
+          content.push({ type: 'image_url', image_url: { url: s.image } });
+          content.push({ type: 'text', text: describeFocusSlide(s) });
+        }
+      }
+      return parseAnswerResponse(await complete(content), request.slides.length);
+    },
+
+    // Text-only models cannot read the slide images, so they return nothing to add
+    analyzeSlides: async (request: AnalysisRequest) => {
+      if (!sendImages) return [];
+      const content: any[] = [{ type: 'text', text: `${buildAnalysisPrompt(request)}\nRespond with the JSON array only.` }];
+      for (const s of request.slides) {
+        content.push({ type: 'image_url', image_url: { url: s.image } });
+        content.push({ type: 'text', text: describeAnalysisSlide(s) });
+      }
+      return parseAnalysisResponse(await complete(content), request.slides.map(s => s.index));
+    },
+  };
+};
+
+/**
+ * Deterministic offline provider: builds a script from the slide text itself,
+ * padded to the length budget, so the rest of the pipeline can run without a model.
+ */
+export const createMockScriptProvider = (): ScriptProvider => ({
+  generateScripts: async (request: ScriptRequest) => {
+    const { perSlide } = getLengthBudget(request);
+    const targets = request.target
+      ? request.slides.filter(s => request.target!.targetSlideIndices.includes(s.index))
+      : request.slides;
+
+    return targets.map((slide): ScriptItem => {
+      const intro = request.language === 'ko'
+        ? `${slide.index + 1}번 슬라이드입니다.`
+        : `This is slide ${slide.index + 1}.`;
+      const seed = request.notesMode === 'polish' && slide.notes ? slide.notes : slide.text;
+      const source = seed.trim().split(/\s+/).filter(Boolean);
+      const filler = request.language === 'ko' ? ['내용을', '살펴보겠습니다.'] : ['Let', 'us', 'take', 'a', 'closer', 'look.'];
+      const words = intro.split(' ');
+      const pool = source.length > 0 ? source : filler;
+      const targetWords = Math.max(perSlide, words.length + 1);
+      for (let i = 0; words.length < targetWords; i++) {
+        words.push(pool[i % pool.length]);
+      }
+      if (request.dialogue?.mode !== 'dialogue') return { slideIndex: slide.index, script: words.join(' ') };
+
+      // Alternate the hosts every few words so both voices get exercised
+      const hosts = request.dialogue.hosts;
+      const turns: string[] = [];
+      for (let i = 0; i < words.length; i += 8) {
+        turns.push(`${hosts[turns.length % 2].name}: ${words.slice(i, i + 8).join(' ')}`);
+      }
+      return { slideIndex: slide.index, script: turns.join('\n') };
+    });
+  },
+
+  // Quotes the best-matching slides back instead of reasoning about them
+  answerQuestion: async (request: QuestionRequest) => {
+    const cited = request.focusSlides.slice(0, 2);
+    if (cited.length === 0) return { answer: 'The presentation does not cover that.', citations: [] };
+    return {
+      answer: cited.map(s => `Slide ${s.index + 1}: ${s.text.trim().split(/\s+/).slice(0, 30).join(' ')}`).join('\n'),
+      citations: cited.map(s => s.index),
+    };
+  },
+
+  // Reads the analysis off the slide's own text, one line per field
+  analyzeSlides: async (request: AnalysisRequest) =>
+    request.slides.map(s => {
+      const lines = s.text.split('\n').map(l => l.trim()).filter(Boolean);
+      return {
+        slideIndex: s.index,
+        analysis: { title: lines[0] || `Slide ${s.index + 1}`, keyPoints: lines.slice(1, 6), visuals: '', extractedText: s.text.trim() },
+      };
+    }),
+
+  // Tags each line with the target language instead of translating it; speaker labels stay first
+  translateScripts: async (request: TranslationRequest) => {
+    const tag = `[${getLanguageInfo(request.to).isoCode}]`;
+    return request.scripts.map(s => ({
+      slideIndex: s.slideIndex,
+      script: s.script.split('\n').map(line => line.replace(/^([^:\n]{1,40}:\s*)?/, `$1${tag} `)).join('\n'),
+    }));
+  },
+});
@@ -0,0 +1,455 @@
+import { AppLanguage, DialogueSettings, NotesMode, SlideAnalysis, SlideData } from '../types';
+import { getLanguageInfo } from './languages';
+import type { DeckAnswer, QuestionRequest } from './deckQa';
+import type { AnalysisItem, AnalysisRequest } from './slideAnalysis';
+
+export interface ScriptItem {
+  slideIndex: number;
+  script: string;
+}
+
+export interface ScriptTargetOptions {
+  // Only these slides get a new script; the remaining slides are sent as context.
+  targetSlideIndices: number[];
+  // Current narration of the context slides, so the rewrite flows into its neighbours.
+  existingScripts?: ScriptItem[];
+  // Measured lengths of the current scripts, when a rewrite should shorten or lengthen them.
+  lengthHints?: ScriptLengthHint[];
+  // Running summary of the narration before these slides, when a long deck is scripted in windows.
+  summary?: string;
+}
+
+export interface ScriptLengthHint {
+  slideIndex: number;
+  currentScript: string;
+  currentSeconds: number;
+  targetSeconds: number;
+  targetLength: number; // in the language's length unit (words or characters)
+}
+
+export interface ScriptRequest {
+  slides: SlideData[];
+  totalDurationSec: number;
+  style: string;
+  language: AppLanguage;
+  notesMode?: NotesMode;
+  dialogue?: DialogueSettings;
+  target?: ScriptTargetOptions;
+}
+
+export interface TranslationRequest {
+  scripts: ScriptItem[];
+  from: AppLanguage;
+  to: AppLanguage;
+  style: string;
+  // Measured lengths of the current translations, when duration fitting asks for longer or shorter ones
+  lengthHints?: ScriptLengthHint[];
+}
+
+export interface ScriptProvider {
+  generateScripts: (request: ScriptRequest) => Promise<ScriptItem[]>;
+  translateScripts: (request: TranslationRequest) => Promise<ScriptItem[]>;
+  answerQuestion: (request: QuestionRequest) => Promise<DeckAnswer>;
+  analyzeSlides: (request: AnalysisRequest) => Promise<AnalysisItem[]>;
+}
+
+/** Script length the duration allows, in words or (for ja/zh) characters. */
+export const getLengthBudget = (request: ScriptRequest) => {
+  const { lengthUnit, unitsPerSecond } = getLanguageInfo(request.language);
+  const targetCount = request.target ? request.target.targetSlideIndices.length : request.slides.length;
+  const total = Math.floor(request.totalDurationSec * unitsPerSecond);
+  return { total, perSlide: Math.floor(total / Math.max(targetCount, 1)), unit: lengthUnit };
+};
+
+export const buildScriptPrompt = (request: ScriptRequest): string => {
+  const { totalDurationSec, style, language, notesMode, target } = request;
+  const hasNotes = notesMode === 'polish' && request.slides.some(s => s.notes);
+  const budget = getLengthBudget(request);
+
+  const langInstruction = `Generate the script in ${getLanguageInfo(language).promptName}.`;
+
+  return `
+    You are a professional presentation narrator. 
+    Analyze the following slides and their text.
+    Generate a cohesive narration script for a video that is exactly ${totalDurationSec} seconds long.
+    
+    TONE: ${style}
+    LANGUAGE: ${langInstruction}
+    TARGET LENGTH: Approximately ${budget.total} ${budget.unit} in total (${budget.perSlide} ${budget.unit} per slide).
+    
+    Format the output as a JSON array of objects:
+    - slide_index: Number (starting from 0).
+    - script: The narration text.
+
+    CRITICAL INSTRUCTIONS:
+    1. The script for each slide must be long enough to be spoken naturally within the allocated time.
+    2. If the tone is "An atmospheric tone that reveals the truth", use slow pacing, evocative imagery, and a sense of profound discovery.
+    3. Ensure the flow between slides is seamless.
+    4. Total speaking time must match the target duration as closely as possible.
+    ${hasNotes ? "- Where a slide has speaker notes, build its narration from them: keep the presenter's points and their order, but rewrite them in the requested tone and length." : ''}
+    ${request.dialogue?.mode === 'dialogue' ? buildDialogueInstruction(request.dialogue) : ''}
+    ${target ? buildTargetInstruction(target, language) : ''}
+  `;
+};
+
+function buildDialogueInstruction(dialogue: DialogueSettings): string {
+  const [a, b] = dialogue.hosts;
+  return `
+    DIALOGUE FORMAT: Instead of a monologue, write each slide's script as a conversation between two hosts:
+    - ${a.name}: ${a.role}
+    - ${b.name}: ${b.role}
+    Put every turn on its own line, starting with the speaker's name and a colon (e.g. "${a.name}: ..."), separated by newline characters.
+    Use only these two names as labels, let both hosts speak on every slide, and keep the conversation flowing across slides.
+    The word count above covers both hosts together.
+  `;
+}
+
+function buildTargetInstruction(target: ScriptTargetOptions, language: AppLanguage): string {
+  const unit = getLanguageInfo(language).lengthUnit;
+  const context = (target.existingScripts || [])
+    .filter(s => !target.targetSlideIndices.includes(s.slideIndex))
+    .map(s => `- Slide ${s.slideIndex}: ${s.script}`)
+    .join('\n');
+
+  const lengths = (target.lengthHints || [])
+    .map(h => `- Slide ${h.slideIndex}: currently ${h.currentSeconds.toFixed(1)}s when spoken. Rewrite it to last about ${h.targetSeconds.toFixed(1)}s (about ${h.targetLength} ${unit}), keeping its meaning. Current text: ${h.currentScript}`)
+    .join('\n');
+
+  return `
+    5. Only write scripts for slide_index ${target.targetSlideIndices.join(', ')}. The other slides are context only; do not return them.
+    6. The new script must connect naturally with the existing narration of the neighbouring slides:
+    ${context || '(no neighbouring narration)'}
+    ${lengths ? `7. These scripts were measured after voicing and must change length. The length targets below override the word count above:\n    ${lengths}` : ''}
+    ${target.summary ? `8. These slides are one part of a longer video; the duration and word count above cover only them. The narration so far opened each slide like this. Continue from it without repeating it or greeting the audience again:\n    ${target.summary}` : ''}
+  `;
+}
+
+export const buildTranslationPrompt = (request: TranslationRequest): string => {
+  const scripts = request.scripts.map(s => `- slide_index ${s.slideIndex}: ${s.script}`).join('\n');
+  const unit = getLanguageInfo(request.to).lengthUnit;
+  const lengths = (request.lengthHints || [])
+    .filter(h => request.scripts.some(s => s.slideIndex === h.slideIndex))
+    .map(h => `- slide_index ${h.slideIndex}: the current translation lasts ${h.currentSeconds.toFixed(1)}s when spoken. Translate it to last about ${h.targetSeconds.toFixed(1)}s (about ${h.targetLength} ${unit}), condensing or expanding the wording but not adding or dropping points. Current translation: ${h.currentScript}`)
+    .join('\n');
+  return `
+    You are a professional translator of narration scripts for video presentations.
+    Translate the narration below from ${getLanguageInfo(request.from).promptName} into ${getLanguageInfo(request.to).promptName}.
+
+    TONE: ${request.style}
+
+    Format the output as a JSON array of objects:
+    - slide_index: Number, the same as the source.
+    - script: The translated narration text.
+
+    CRITICAL INSTRUCTIONS:
+    1. Return exactly one item per source item, keeping slide_index unchanged.
+    2. Write natural spoken ${getLanguageInfo(request.to).promptName}, not a word-for-word rendering, but keep every point and its order.
+    3. Keep each translation about as long to speak as the source, so the slide timing stays close.
+    4. Keep narration markup as it is: [pause ...] tags stay where they are, [spell ...] terms stay untranslated, and *emphasis* marks move with the emphasised words.
+    5. Lines starting with a speaker label ("Name: ...") are dialogue turns. Keep each label and line break exactly as they are and translate only the text after the colon.
+    ${lengths ? `6. These translations were measured after voicing and must change length. The length targets below override rule 3:\n    ${lengths}` : ''}
+
+    SOURCE NARRATION:
+    ${scripts}
+  `;
+};
+
+/**
+ * Text part sent for each slide. Speaker notes are only shown to the model
+ * when it is asked to polish them.
+ */
+export const describeSlide = (slide: SlideData, notesMode?: NotesMode): string => {
+  const notes = notesMode === 'polish' && slide.notes ? `\nSlide ${slide.index} speaker notes: ${slide.notes}` : '';
+  const analysis = slide.analysis ? `\nSlide ${slide.index} analysis: ${describeSlideAnalysis(slide.analysis)}` : '';
+  return `Slide ${slide.index} text: ${slide.text}${analysis}${notes}`;
+};
+
+/** The vision pass's reading of a slide on one line, skipping empty fields. */
+export const describeSlideAnalysis = (analysis: SlideAnalysis): string => [
+  analysis.title && `Title: ${analysis.title}`,
+  analysis.keyPoints.length > 0 && `Key points: ${analysis.keyPoints.join('; ')}`,
+  analysis.visuals && `Charts and visuals: ${analysis.visuals}`,
+  analysis.extractedText && `Text on the slide: ${analysis.extractedText.replace(/\s+/g, ' ')}`,
+].filter(Boolean).join(' | ');
+
+// Decks longer than this are scripted in windows of this many slides
+export const SCRIPT_WINDOW_SLIDES = 12;
+// The running summary handed to each window keeps at most this many characters
+const SUMMARY_MAX_CHARS = 2400;
+const SUMMARY_LINE_CHARS = 160;
+
+const firstSentence = (script: string): string => {
+  const line = script.trim().split('\n')[0].replace(/^[^:\n]{1,40}:\s*/, '');
+  const sentence = line.split(/(?<=[.!?。！？])\s/)[0];
+  return sentence.length > SUMMARY_LINE_CHARS ? `${sentence.slice(0, SUMMARY_LINE_CHARS)}…` : sentence;
+};
+
+/**
+ * What has been narrated so far, one opening sentence per slide. The oldest
+ * slides drop out first once it grows past SUMMARY_MAX_CHARS.
+ */
+export const summarizeNarration = (scripts: ScriptItem[]): string => {
+  const lines = scripts.map(s => `- Slide ${s.slideIndex}: ${firstSentence(s.script)}`);
+  while (lines.length > 1 && lines.join('\n').length > SUMMARY_MAX_CHARS) lines.shift();
+  return lines.join('\n');
+};
+
+/**
+ * Generates scripts for a whole deck. In 'verbatim' notes mode, slides with
+ * speaker notes use them as-is and only the remaining slides go to the
+ * provider, with the verbatim scripts passed along as context.
+ *
+ * Long decks go out in windows of SCRIPT_WINDOW_SLIDES. Each window gets its
+ * share of the duration, its neighbouring slides and a running summary of the
+ * narration before it; `onProgress` reports the finished fraction per window.
+ * A window that leaves slides without scripts does not stop the rest: the
+ * failures are collected and thrown together at the end, with every script
+ * written so far in the error's `items`.
+ */
+export const generateDeckScripts = async (
+  provider: ScriptProvider,
+  request: ScriptRequest,
+  onProgress?: (fraction: number) => void
+): Promise<ScriptItem[]> => {
+  const verbatim: ScriptItem[] = request.notesMode !== 'verbatim' ? [] : request.slides
+    .filter(s => s.notes?.trim())
+    .map(s => ({ slideIndex: s.index, script: s.notes!.trim() }));
+  const remaining = request.slides.filter(s => !verbatim.some(v => v.slideIndex === s.index));
+  if (remaining.length === 0) return verbatim;
+  if (verbatim.length === 0 && remaining.length <= SCRIPT_WINDOW_SLIDES) {
+    const scripts = await provider.generateScripts(request);
+    onProgress?.(1);
+    return scripts;
+  }
+
+  const secondsPerSlide = request.totalDurationSec / request.slides.length;
+  const windows: SlideData[][] = [];
+  for (let i = 0; i < remaining.length; i += SCRIPT_WINDOW_SLIDES) {
+    windows.push(remaining.slice(i, i + SCRIPT_WINDOW_SLIDES));
+  }
+
+  const scripts: ScriptItem[] = [...verbatim];
+  const failures: SlideScriptFailure[] = [];
+  for (let w = 0; w < windows.length; w++) {
+    const window = windows[w];
+    // One slide on either side goes along so the transitions line up
+    const from = Math.max(0, request.slides.indexOf(window[0]) - 1);
+    const to = request.slides.indexOf(window[window.length - 1]) + 1;
+    const slides = request.slides.slice(from, to + 1);
+    const before = scripts
+      .filter(s => s.slideIndex < window[0].index)
+      .sort((a, b) => a.slideIndex - b.slideIndex);
+
+    try {
+      scripts.push(...await provider.generateScripts({
+        ...request,
+        slides,
+        totalDurationSec: secondsPerSlide * window.length,
+        target: {
+          targetSlideIndices: window.map(s => s.index),
+          existingScripts: scripts.filter(s => slides.some(slide => slide.index === s.slideIndex)),
+          summary: windows.length > 1 && before.length > 0 ? summarizeNarration(before) : undefined,
+        },
+      }));
+    } catch (err) {
+      if (!(err instanceof ScriptGenerationError)) throw err;
+      scripts.push(...err.items);
+      failures.push(...err.failures);
+    }
+    onProgress?.((w + 1) / windows.length);
+  }
+  scripts.sort((a, b) => a.slideIndex - b.slideIndex);
+  if (failures.length > 0) throw new ScriptGenerationError(failures, scripts);
+  return scripts;
+};
+
+export interface SlideScriptFailure {
+  slideIndex: number;
+  reason: 'missing' | 'empty' | 'error';
+  message?: string;
+}
+
+/** The model's reply could not be read as a script list at all. */
+export class ScriptResponseError extends Error {}
+
+/**
+ * Some slides still had no script after every repair pass. `items` holds the
+ * scripts that did come back, so callers can keep them.
+ */
+export class ScriptGenerationError extends Error {
+  constructor(readonly failures: SlideScriptFailure[], readonly items: ScriptItem[]) {
+    super(`${failures.length}개 슬라이드의 스크립트를 만들지 못했습니다: ${failures.map(describeFailure).join(', ')}`);
+  }
+}
+
+const FAILURE_LABELS: Record<SlideScriptFailure['reason'], string> = {
+  missing: '응답에 없음',
+  empty: '빈 스크립트',
+  error: '요청 실패',
+};
+
+const describeFailure = (failure: SlideScriptFailure) =>
+  `슬라이드 ${failure.slideIndex + 1} (${failure.message || FAILURE_LABELS[failure.reason]})`;
+
+/**
+ * Parses the model's JSON reply. Accepts a bare array, an object wrapping it
+ * (some OpenAI-compatible servers only emit JSON objects) and markdown fences.
+ * Items without a usable slide_index are dropped; unreadable JSON throws.
+ * Indices are returned as the model wrote them: collectScripts aligns them
+ * with the requested slides before anything is filtered out.
+ */
+export const parseScriptResponse = (text: string): ScriptItem[] => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned || "[]");
+  } catch (e) {
+    throw new ScriptResponseError(`Script response is not valid JSON: ${(e as Error).message}`);
+  }
+  const list: any[] | undefined = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (!list) throw new ScriptResponseError("Script response has no list of scripts");
+
+  return list
+    .map((item: any) => ({
+      slideIndex: Number(item?.slide_index),
+      script: typeof item?.script === 'string' ? item.script : '',
+    }))
+    .filter(item => Number.isInteger(item.slideIndex));
+};
+
+export interface ScriptRetryOptions {
+  // Tries per request, the first one included
+  attempts: number;
+  // Wait before the first retry; doubles after every further failure
+  baseDelayMs: number;
+  // Follow-up requests for slides that are still missing or empty
+  repairPasses: number;
+}
+
+export const DEFAULT_SCRIPT_RETRY: ScriptRetryOptions = { attempts: 3, baseDelayMs: 1000, repairPasses: 2 };
+
+/**
+ * Rate limits, server errors, dropped connections and garbled replies are
+ * worth another try; anything else (bad key, bad request, a bug) is not.
+ */
+export const isTransientError = (err: unknown): boolean => {
+  if (err instanceof ScriptResponseError) return true;
+  // fetch rejects with a TypeError when the connection fails; other TypeErrors are bugs
+  if (err instanceof TypeError) return /fetch|network/i.test(err.message);
+  const status = Number((err as any)?.status ?? (err as any)?.code);
+  if (status) return status === 408 || status === 429 || status >= 500;
+  return /\b(408|429|5\d\d)\b|overloaded|unavailable|timed? ?out|network/i.test(String((err as any)?.message ?? ''));
+};
+
+export const withRetry = async <T>(call: () => Promise<T>, options: ScriptRetryOptions = DEFAULT_SCRIPT_RETRY): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (attempt >= options.attempts || !isTransientError(err)) throw err;
+      const delay = options.baseDelayMs * 2 ** (attempt - 1) * (0.75 + Math.random() * 0.5);
+      console.warn(`Script request failed (attempt ${attempt}/${options.attempts}), retrying in ${Math.round(delay)} ms`, err);
+      await new Promise(r => setTimeout(r, delay));
+    }
+  }
+};
+
+/**
+ * Models sometimes number slides from 1 despite the prompt. When some index
+ * falls outside the expected set and all of them fit once shifted down by
+ * one, shift them back.
+ */
+const alignIndices = (items: ScriptItem[], expected: number[]): ScriptItem[] => {
+  if (items.every(item => expected.includes(item.slideIndex))) return items;
+  const shifted = items.map(item => ({ ...item, slideIndex: item.slideIndex - 1 }));
+  return shifted.every(item => expected.includes(item.slideIndex)) ? shifted : items;
+};
+
+/**
+ * Asks for scripts until every expected slide has a non-empty one: transient
+ * errors are retried with backoff, then slides that came back missing or
+ * empty are requested again on their own. Each reply is aligned with the
+ * slides it was asked for before items for other slides are dropped. Throws
+ * ScriptGenerationError naming each slide that never got a script.
+ */
+const collectScripts = async (
+  expected: number[],
+  options: ScriptRetryOptions,
+  request: (missing: number[], found: ScriptItem[], pass: number) => Promise<ScriptItem[]>
+): Promise<ScriptItem[]> => {
+  const found = new Map<number, string>();
+  const failures = new Map<number, SlideScriptFailure>();
+  const store = (items: ScriptItem[], requested: number[]) => {
+    for (const item of alignIndices(items, requested)) {
+      if (!requested.includes(item.slideIndex) || found.has(item.slideIndex)) continue;
+      if (item.script.trim()) found.set(item.slideIndex, item.script.trim());
+      else failures.set(item.slideIndex, { slideIndex: item.slideIndex, reason: 'empty' });
+    }
+  };
+  const missing = () => expected.filter(index => !found.has(index));
+  const foundItems = () => [...found].map(([slideIndex, script]) => ({ slideIndex, script })).sort((a, b) => a.slideIndex - b.slideIndex);
+
+  // The first request's errors are the caller's; a failed repair is reported per slide
+  store(await withRetry(() => request(expected, [], 0), options), expected);
+  for (let pass = 1; pass <= options.repairPasses && missing().length > 0; pass++) {
+    const targets = missing();
+    try {
+      store(await withRetry(() => request(targets, foundItems(), pass), options), targets);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      targets.forEach(slideIndex => failures.set(slideIndex, { slideIndex, reason: 'error', message }));
+      break;
+    }
+  }
+
+  const unresolved = missing();
+  if (unresolved.length > 0) {
+    throw new ScriptGenerationError(
+      unresolved.map(slideIndex => failures.get(slideIndex) || { slideIndex, reason: 'missing' }),
+      foundItems()
+    );
+  }
+  return foundItems();
+};
+
+/**
+ * Wraps a provider so every call returns exactly one non-empty script per
+ * requested slide, or fails with a per-slide ScriptGenerationError.
+ */
+export const withScriptValidation = (provider: ScriptProvider, options: ScriptRetryOptions = DEFAULT_SCRIPT_RETRY): ScriptProvider => ({
+  generateScripts: (request) => {
+    const expected = request.target ? request.target.targetSlideIndices : request.slides.map(s => s.index);
+    return collectScripts(expected, options, (missing, found, pass) => {
+      if (pass === 0) return provider.generateScripts(request);
+      // Repairs keep the per-slide word budget and see the scripts written so far
+      const existingScripts = [
+        ...(request.target?.existingScripts || []).filter(s => !expected.includes(s.slideIndex)),
+        ...found,
+      ];
+      return provider.generateScripts({
+        ...request,
+        totalDurationSec: request.totalDurationSec * (missing.length / expected.length),
+        target: {
+          targetSlideIndices: missing,
+          existingScripts,
+          lengthHints: request.target?.lengthHints?.filter(h => missing.includes(h.slideIndex)),
+          summary: request.target?.summary,
+        },
+      });
+    });
+  },
+
+  translateScripts: (request) => {
+    const expected = request.scripts.map(s => s.slideIndex);
+    return collectScripts(expected, options, (missing) => provider.translateScripts({
+      ...request,
+      scripts: request.scripts.filter(s => missing.includes(s.slideIndex)),
+    }));
+  },
+
+  answerQuestion: (request) => withRetry(() => provider.answerQuestion(request), options),
+
+  analyzeSlides: (request) => withRetry(() => provider.analyzeSlides(request), options),
+});
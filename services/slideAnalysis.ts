@@ -0,0 +1,113 @@
+import { SlideAnalysis, SlideData } from '../types';
+import { ScriptProvider, ScriptResponseError } from './scripting';
+
+/**
+ * A vision pass over the slide images before any script is written: the model
+ * reads each slide's title, key points, charts and tables, and any text baked
+ * into the image. Scanned PDFs and image uploads carry little or no text of
+ * their own, so this is what the script writer works from for them.
+ */
+
+export interface AnalysisRequest {
+  slides: SlideData[];
+}
+
+export interface AnalysisItem {
+  slideIndex: number;
+  analysis: SlideAnalysis;
+}
+
+// Slides sent per analysis request
+export const ANALYSIS_BATCH_SLIDES = 4;
+// Slides with less text than this are read from their image before scripting
+const MIN_SLIDE_TEXT_CHARS = 40;
+// The text parseDeck gives image uploads
+const IMAGE_PLACEHOLDER = /^Image: .*$/;
+
+export const EMPTY_ANALYSIS: SlideAnalysis = { title: '', keyPoints: [], visuals: '', extractedText: '' };
+
+/**
+ * Whether a slide has too little text of its own to script from. Title cards
+ * are drawn from known text and never need reading.
+ */
+export const needsAnalysis = (slide: SlideData): boolean => {
+  if (slide.card) return false;
+  const text = slide.text.trim().replace(IMAGE_PLACEHOLDER, '').trim();
+  return text.length < MIN_SLIDE_TEXT_CHARS;
+};
+
+export const buildAnalysisPrompt = (request: AnalysisRequest): string => `
+    You read presentation slides for a narrator who will script a video from them.
+    Each slide image below is followed by its slide_index and any text already extracted from it.
+
+    Format the output as a JSON array of objects, one per slide:
+    - slide_index: Number, as given with the slide.
+    - title: The slide's title or main heading, or a short one you infer if it has none.
+    - key_points: Array of the points the slide makes, each a short sentence.
+    - visuals: What its charts, tables, diagrams and photos show, in words: axes, trends, notable values and comparisons. Empty if it has none.
+    - extracted_text: All legible text on the slide, in reading order.
+
+    CRITICAL INSTRUCTIONS:
+    1. Write in the language the slide is written in.
+    2. Describe only what is on the slide; do not add facts from elsewhere.
+    3. Read numbers from charts and tables exactly as shown.
+  `;
+
+// Text part that goes with each slide image
+export const describeAnalysisSlide = (slide: SlideData): string =>
+  `slide_index ${slide.index}${slide.text.trim() ? `, extracted text: ${slide.text.trim()}` : ''}`;
+
+const toText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Parses the model's JSON reply the same way script replies are read: a bare
+ * array, an object wrapping one, or either inside markdown fences. Slides not
+ * asked for are dropped; unreadable JSON throws ScriptResponseError.
+ */
+export const parseAnalysisResponse = (text: string, slideIndices: number[]): AnalysisItem[] => {
+  const cleaned = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned || "[]");
+  } catch (e) {
+    throw new ScriptResponseError(`Analysis response is not valid JSON: ${(e as Error).message}`);
+  }
+  const list: any[] | undefined = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (!list) throw new ScriptResponseError("Analysis response has no list of slides");
+
+  return list
+    .map((item: any) => ({
+      slideIndex: Number(item?.slide_index),
+      analysis: {
+        title: toText(item?.title),
+        keyPoints: Array.isArray(item?.key_points) ? item.key_points.map(toText).filter(Boolean) : [],
+        visuals: toText(item?.visuals),
+        extractedText: toText(item?.extracted_text),
+      },
+    }))
+    .filter(item => slideIndices.includes(item.slideIndex));
+};
+
+/**
+ * Analyzes the given slides in batches and returns the deck with each
+ * analysis stored on its slide. Slides the model skipped are left as they were.
+ */
+export const analyzeDeckSlides = async (
+  provider: ScriptProvider,
+  deck: SlideData[],
+  targets: SlideData[],
+  onProgress?: (fraction: number) => void
+): Promise<SlideData[]> => {
+  const results = new Map<number, SlideAnalysis>();
+  for (let i = 0; i < targets.length; i += ANALYSIS_BATCH_SLIDES) {
+    const batch = targets.slice(i, i + ANALYSIS_BATCH_SLIDES);
+    const items = await provider.analyzeSlides({ slides: batch });
+    items.forEach(item => results.set(item.slideIndex, item.analysis));
+    onProgress?.(Math.min(i + ANALYSIS_BATCH_SLIDES, targets.length) / targets.length);
+  }
+  const skipped = targets.filter(s => !results.has(s.index));
+  if (skipped.length > 0) console.warn(`No analysis returned for slide(s) ${skipped.map(s => s.index + 1).join(', ')}`);
+  return deck.map(slide => results.has(slide.index) ? { ...slide, analysis: results.get(slide.index) } : slide);
+};
@@ -0,0 +1,35 @@
+import { SlideData } from '../types';
+
+/**
+ * Edits to the slide list made between parsing and scripting. Every function
+ * returns a new list with `index` renumbered to match the position, which is
+ * what narrations, the player and export key on.
+ */
+
+export const renumberSlides = (slides: SlideData[]): SlideData[] =>
+  slides.map((slide, index) => slide.index === index ? slide : { ...slide, index });
+
+export const moveSlide = (slides: SlideData[], from: number, to: number): SlideData[] => {
+  if (from === to || from < 0 || from >= slides.length) return slides;
+  const next = [...slides];
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return renumberSlides(next);
+};
+
+export const removeSlide = (slides: SlideData[], at: number): SlideData[] =>
+  renumberSlides(slides.filter((_, i) => i !== at));
+
+export const duplicateSlide = (slides: SlideData[], at: number): SlideData[] => {
+  if (at < 0 || at >= slides.length) return slides;
+  return insertSlides(slides, at + 1, [{ ...slides[at] }]);
+};
+
+export const insertSlides = (slides: SlideData[], at: number, inserted: SlideData[]): SlideData[] => {
+  const next = [...slides];
+  next.splice(Math.max(0, Math.min(at, next.length)), 0, ...inserted);
+  return renumberSlides(next);
+};
+
+export const replaceSlide = (slides: SlideData[], at: number, slide: SlideData): SlideData[] =>
+  renumberSlides(slides.map((s, i) => i === at ? slide : s));
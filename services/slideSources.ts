@@ -0,0 +1,102 @@
+import { SlideData } from '../types';
+import type { ImageWorkerRequest, ImageWorkerResponse } from './imageWorker';
+
+// Long edge of the image kept on the slide and sent to the script model
+export const MODEL_IMAGE_EDGE = 1600;
+// Long edge of the slide-list thumbnails
+export const THUMBNAIL_EDGE = 320;
+
+// The files slides were rasterized from (PDFs, PowerPoint decks, uploaded
+// images) stay in memory by id, so export can draw every slide again at full
+// resolution and projects can save them alongside the slides
+const files = new Map<string, ArrayBuffer>();
+
+export const registerSourceFile = (id: string, data: ArrayBuffer) => {
+  files.set(id, data);
+};
+
+export const getSourceFile = (id: string): ArrayBuffer | undefined => files.get(id);
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (reply: ImageWorkerResponse & { type: 'scaled' }) => void; reject: (err: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+  worker = new Worker(new URL('./imageWorker.ts', import.meta.url));
+  worker.onmessage = (e: MessageEvent<ImageWorkerResponse>) => {
+    const request = pending.get(e.data.requestId);
+    pending.delete(e.data.requestId);
+    if (e.data.type === 'error') request?.reject(new Error(e.data.message));
+    else request?.resolve(e.data);
+  };
+  worker.onerror = (e) => {
+    // A worker that failed to load cannot be reused; fail everything in flight
+    const err = new Error(e.message || "이미지 처리 워커를 시작하지 못했습니다.");
+    pending.forEach(p => p.reject(err));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  return worker;
+};
+
+/**
+ * The model-sized image and the thumbnail for one slide, made in the image
+ * worker. Bitmaps are transferred, so the caller must not use them afterwards.
+ */
+export const scaleSlideImage = async (
+  source: Blob | ImageBitmap,
+  imageType: 'image/png' | 'image/jpeg'
+): Promise<{ image: string; thumbnail: string }> => {
+  const requestId = nextRequestId++;
+  const reply = await new Promise<ImageWorkerResponse & { type: 'scaled' }>((resolve, reject) => {
+    pending.set(requestId, { resolve, reject });
+    const message: ImageWorkerRequest = {
+      type: 'scale', requestId, source, imageType, imageEdge: MODEL_IMAGE_EDGE, thumbnailEdge: THUMBNAIL_EDGE,
+    };
+    getWorker().postMessage(message, source instanceof Blob ? [] : [source]);
+  });
+  const [image, thumbnail] = await Promise.all([blobToDataUrl(reply.image), blobToDataUrl(reply.thumbnail)]);
+  return { image, thumbnail };
+};
+
+/**
+ * An uploaded image as a slide: scaled down for the model and the slide list,
+ * with the original kept for export. Photos stay JPEG, everything else PNG.
+ */
+export const processImage = async (file: File): Promise<SlideData> => {
+  const deck = crypto.randomUUID();
+  const data = await file.arrayBuffer();
+  registerSourceFile(deck, data);
+  const { image, thumbnail } = await scaleSlideImage(new Blob([data], { type: file.type }), file.type === 'image/jpeg' ? 'image/jpeg' : 'image/png');
+  return { index: 0, image, thumbnail, text: `Image: ${file.name}`, source: { kind: 'image', deck, page: 1 } };
+};
+
+/**
+ * The original upload behind an image slide, no larger than fits in
+ * width x height, for export. Returns null when it is not loaded.
+ */
+export const renderImageSlide = async (slide: SlideData, width: number, height: number): Promise<ImageBitmap | null> => {
+  const data = slide.source?.kind === 'image' ? getSourceFile(slide.source.deck) : undefined;
+  if (!data) return null;
+  const original = await createImageBitmap(new Blob([data]));
+  const scale = Math.min(width / original.width, height / original.height);
+  if (scale >= 1) return original;
+  const resized = await createImageBitmap(original, {
+    resizeWidth: Math.max(1, Math.round(original.width * scale)),
+    resizeHeight: Math.max(1, Math.round(original.height * scale)),
+    resizeQuality: 'high',
+  });
+  original.close();
+  return resized;
+};
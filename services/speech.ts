@@ -0,0 +1,37 @@
+import { AppLanguage, WordTiming } from '../types';
+
+export interface VoiceOption {
+  id: string;
+  label: string;
+}
+
+export interface SpeechProvider {
+  // Native output format of the engine; synthesize() returns buffers in this layout.
+  sampleRate: number;
+  numChannels: number;
+  listVoices: (language: AppLanguage) => Promise<VoiceOption[]>;
+  // The language lets multilingual engines pick the right model and pronunciation
+  synthesize: (text: string, voice: string, language: AppLanguage, ctx: BaseAudioContext) => Promise<AudioBuffer>;
+}
+
+// Word timings a provider reported for a buffer it synthesized. They travel
+// with the buffer through concatenation and time-stretching.
+const wordTimings = new WeakMap<AudioBuffer, WordTiming[]>();
+
+export const attachWordTimings = (buffer: AudioBuffer, words: WordTiming[] | undefined): AudioBuffer => {
+  if (words && words.length > 0) wordTimings.set(buffer, words);
+  return buffer;
+};
+
+export const getWordTimings = (buffer: AudioBuffer | undefined): WordTiming[] | undefined =>
+  buffer ? wordTimings.get(buffer) : undefined;
+
+/**
+ * Picks the configured voice if the provider still offers it, otherwise the
+ * provider's first (preferred) voice for the language.
+ */
+export const resolveVoice = async (provider: SpeechProvider, language: AppLanguage, preferred: string): Promise<string> => {
+  const voices = await provider.listVoices(language);
+  if (voices.length === 0) throw new Error("No voices available for the selected speech engine");
+  return (voices.find(v => v.id === preferred) || voices[0]).id;
+};
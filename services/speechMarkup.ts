@@ -0,0 +1,114 @@
+import { PronunciationEntry } from '../types';
+import { concatAudioBuffers } from './audioUtils';
+
+/**
+ * Inline narration markup understood by the voicing layer:
+ *   [pause 1s] / [pause 500ms] / [pause]  real silence in the audio
+ *   *words*                               emphasis: set apart by short pauses
+ *                                         ("3 * 4" and "* item" are left alone)
+ *   [spell API]                           read letter by letter
+ * Subtitles and transcripts show the script with the markup removed.
+ */
+
+const DEFAULT_PAUSE_SECONDS = 0.6;
+const MAX_PAUSE_SECONDS = 10;
+const EMPHASIS_PAUSE_SECONDS = 0.15;
+
+const MARKUP_PATTERN = /\[pause(?:\s+(\d+(?:\.\d+)?)\s*(ms|s)?)?\]|\[spell\s+([^\]]+)\]|\*(?=\S)([^*\n]+?)(?<=\S)\*/gi;
+
+export type SpeechChunk = { text: string } | { pause: number };
+
+const spellOut = (term: string) => Array.from(term.replace(/\s+/g, '')).join('. ') + '.';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replaces lexicon terms with their spoken form. Terms match as whole words,
+ * case-sensitively (so "IT" the department and "it" differ), longest first.
+ */
+export const applyLexicon = (text: string, lexicon: PronunciationEntry[]): string => {
+  const entries = lexicon
+    .filter(e => e.term.trim() && e.spoken.trim())
+    .sort((a, b) => b.term.length - a.term.length);
+  if (entries.length === 0) return text;
+
+  const bySurface = new Map(entries.map(e => [e.term.trim(), e.spoken.trim()]));
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${entries.map(e => escapeRegExp(e.term.trim())).join('|')})(?![\\p{L}\\p{N}])`,
+    'gu'
+  );
+  return text.replace(pattern, match => bySurface.get(match) ?? match);
+};
+
+const pushText = (chunks: SpeechChunk[], text: string) => {
+  if (!text.trim()) return;
+  const last = chunks[chunks.length - 1];
+  if (last && 'text' in last) last.text = `${last.text} ${text.trim()}`;
+  else chunks.push({ text: text.trim() });
+};
+
+const pushPause = (chunks: SpeechChunk[], seconds: number) => {
+  if (chunks.length === 0) { chunks.push({ pause: seconds }); return; }
+  const last = chunks[chunks.length - 1];
+  if ('pause' in last) last.pause += seconds;
+  else chunks.push({ pause: seconds });
+};
+
+/**
+ * Turns a marked-up script into the text chunks to synthesize and the
+ * silences between them, with the lexicon applied to every spoken part.
+ */
+export const toSpeechChunks = (script: string, lexicon: PronunciationEntry[] = []): SpeechChunk[] => {
+  const chunks: SpeechChunk[] = [];
+  let cursor = 0;
+  for (const match of script.matchAll(MARKUP_PATTERN)) {
+    pushText(chunks, applyLexicon(script.slice(cursor, match.index), lexicon));
+    cursor = match.index! + match[0].length;
+
+    const [, amount, unit, spelled, emphasized] = match;
+    if (spelled !== undefined) {
+      pushText(chunks, spellOut(spelled));
+    } else if (emphasized !== undefined) {
+      pushPause(chunks, EMPHASIS_PAUSE_SECONDS);
+      chunks.push({ text: applyLexicon(emphasized.trim(), lexicon) });
+      pushPause(chunks, EMPHASIS_PAUSE_SECONDS);
+    } else {
+      const seconds = amount === undefined ? DEFAULT_PAUSE_SECONDS : Number(amount) / (unit?.toLowerCase() === 'ms' ? 1000 : 1);
+      pushPause(chunks, Math.min(seconds, MAX_PAUSE_SECONDS));
+    }
+  }
+  pushText(chunks, applyLexicon(script.slice(cursor), lexicon));
+  return chunks;
+};
+
+export const hasMarkup = (script: string) => script.search(MARKUP_PATTERN) >= 0;
+
+/**
+ * The script as it should read on screen: pauses dropped, emphasis and
+ * spelled terms shown as plain text.
+ */
+export const stripMarkup = (script: string): string =>
+  script
+    .replace(MARKUP_PATTERN, (_, _amount, _unit, spelled, emphasized) => spelled ?? emphasized ?? '')
+    .replace(/[ \t]{2,}/g, ' ')
+    .trim();
+
+/**
+ * Voices a marked-up script: each spoken chunk is synthesized separately and
+ * the chunks are re-joined with real silence where the markup asks for it.
+ */
+export const synthesizeMarkedUp = async (
+  script: string,
+  synthesize: (text: string) => Promise<AudioBuffer>,
+  ctx: BaseAudioContext,
+  lexicon: PronunciationEntry[] = []
+): Promise<AudioBuffer> => {
+  const chunks = toSpeechChunks(script, lexicon);
+  if (chunks.length === 1 && 'text' in chunks[0]) return synthesize(chunks[0].text);
+
+  const parts: (AudioBuffer | number)[] = [];
+  for (const chunk of chunks) {
+    parts.push('text' in chunk ? await synthesize(chunk.text) : chunk.pause);
+  }
+  return concatAudioBuffers(parts, ctx);
+};
@@ -0,0 +1,129 @@
+import { AppLanguage, SpeechProviderId, SpeechProviderSettings } from '../types';
+import { createGeminiSpeechProvider } from './gemini';
+import { wavToAudioBuffer } from './audioUtils';
+import { SpeechProvider, VoiceOption, attachWordTimings } from './speech';
+import { ProviderCredentials } from './scriptProviders';
+import { countScriptLength, getLanguageInfo } from './languages';
+
+export interface SpeechProviderInfo {
+  id: SpeechProviderId;
+  label: string;
+  needsGeminiKey: boolean;
+  needsEndpoint: boolean;
+}
+
+export const SPEECH_PROVIDERS: SpeechProviderInfo[] = [
+  { id: 'gemini', label: 'Google Gemini TTS', needsGeminiKey: true, needsEndpoint: false },
+  { id: 'http', label: 'HTTP TTS server (WAV)', needsGeminiKey: false, needsEndpoint: true },
+  { id: 'stub', label: 'Offline stub (silence / tone)', needsGeminiKey: false, needsEndpoint: false },
+];
+
+export const DEFAULT_SPEECH_PROVIDER: SpeechProviderSettings = {
+  id: 'gemini',
+  voice: '',
+  endpoint: 'http://localhost:5002/tts',
+};
+
+export const getSpeechProviderInfo = (id: SpeechProviderId): SpeechProviderInfo =>
+  SPEECH_PROVIDERS.find(p => p.id === id) || SPEECH_PROVIDERS[0];
+
+export const createSpeechProvider = (settings: SpeechProviderSettings, credentials: ProviderCredentials): SpeechProvider => {
+  switch (settings.id) {
+    case 'http':
+      return createHttpSpeechProvider(settings.endpoint, credentials.endpointKey);
+    case 'stub':
+      return createStubSpeechProvider();
+    default:
+      return createGeminiSpeechProvider(credentials.geminiKey);
+  }
+};
+
+// Sample rate assumed until the server's first WAV header tells us otherwise
+const HTTP_DEFAULT_SAMPLE_RATE = 22050;
+
+/**
+ * Adapter for any TTS server that answers `POST <endpoint>` with
+ * `{ text, voice, language }` and a WAV body. Voices are read from
+ * `GET <endpoint>/voices` (an array of ids or `{ id, label }`) when available.
+ * A server that knows its word timings can answer with JSON instead:
+ * `{ audio: <base64 WAV>, words: [{ text, start, end }] }`, times in seconds.
+ */
+export const createHttpSpeechProvider = (endpoint: string, apiKey: string): SpeechProvider => {
+  const url = endpoint.replace(/\/+$/, '');
+  const headers: Record<string, string> = {};
+  if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+  const provider: SpeechProvider = {
+    sampleRate: HTTP_DEFAULT_SAMPLE_RATE,
+    numChannels: 1,
+    listVoices: async (language: AppLanguage): Promise<VoiceOption[]> => {
+      try {
+        const response = await fetch(`${url}/voices?language=${language}`, { headers });
+        if (!response.ok) throw new Error(`${response.status}`);
+        const data = await response.json();
+        const list: any[] = Array.isArray(data) ? data : data.voices || [];
+        const voices = list.map(v => typeof v === 'string' ? { id: v, label: v } : { id: String(v.id), label: v.label || v.name || String(v.id) });
+        if (voices.length > 0) return voices;
+      } catch (e) {
+        console.warn("TTS server has no voice list, using its default voice", e);
+      }
+      return [{ id: 'default', label: 'Server default' }];
+    },
+    synthesize: async (text: string, voice: string, language: AppLanguage, ctx: BaseAudioContext) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json', 'Accept': 'audio/wav, application/json;q=0.9' },
+        body: JSON.stringify({ text, voice, language }),
+      });
+      if (!response.ok) {
+        throw new Error(`TTS server returned ${response.status}: ${await response.text()}`);
+      }
+      let buffer: AudioBuffer;
+      if (response.headers.get('Content-Type')?.includes('json')) {
+        const data = await response.json();
+        buffer = wavToAudioBuffer(Uint8Array.from(atob(data.audio), c => c.charCodeAt(0)).buffer, ctx);
+        attachWordTimings(buffer, Array.isArray(data.words) ? data.words.map((w: any) => ({
+          text: String(w.text ?? w.word ?? ''),
+          start: Number(w.start),
+          end: Number(w.end),
+        })) : undefined);
+      } else {
+        buffer = wavToAudioBuffer(await response.arrayBuffer(), ctx);
+      }
+      provider.sampleRate = buffer.sampleRate;
+      provider.numChannels = buffer.numberOfChannels;
+      return buffer;
+    },
+  };
+  return provider;
+};
+
+const STUB_SAMPLE_RATE = 24000;
+
+/**
+ * Network-free engine for exercising the pipeline: a quiet tone or silence
+ * lasting roughly as long as the text would take to read aloud.
+ */
+export const createStubSpeechProvider = (): SpeechProvider => ({
+  sampleRate: STUB_SAMPLE_RATE,
+  numChannels: 1,
+  listVoices: async () => [
+    { id: 'tone', label: 'Tone (440 Hz)' },
+    { id: 'silent', label: 'Silence' },
+  ],
+  synthesize: async (text: string, voice: string, language: AppLanguage, ctx: BaseAudioContext) => {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    // Same speaking rate the script prompt budgets with, so durations stay realistic
+    const seconds = Math.max(1, countScriptLength(text, language) / getLanguageInfo(language).unitsPerSecond);
+    const buffer = ctx.createBuffer(1, Math.round(seconds * STUB_SAMPLE_RATE), STUB_SAMPLE_RATE);
+    if (voice === 'tone') {
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = 0.1 * Math.sin((2 * Math.PI * 440 * i) / STUB_SAMPLE_RATE);
+      }
+    }
+    // Evenly spaced timings, so highlighting can be exercised offline too
+    const step = seconds / Math.max(words.length, 1);
+    return attachWordTimings(buffer, words.map((word, i) => ({ text: word, start: i * step, end: (i + 1) * step })));
+  },
+});
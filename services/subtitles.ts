@@ -0,0 +1,207 @@
+import { CaptionStyle, DialogueSettings, WordTiming } from '../types';
+import { TimelineEntry } from './timeline';
+import { isDialogue, parseDialogue } from './dialogue';
+import { stripMarkup } from './speechMarkup';
+import { getNarrationWords } from './wordTimings';
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  speaker?: string; // dialogue host, shown as a label
+  words?: WordTiming[]; // the cue's words, on the same clock as start and end
+}
+
+// Hangul and CJK glyphs are about twice as wide as Latin ones, so lines hold fewer of them
+const MAX_CUE_CHARS_LATIN = 42;
+const MAX_CUE_CHARS_WIDE = 24;
+const WIDE_CHAR = /[\u1100-\u11ff\u3040-\u30ff\u3130-\u318f\u3400-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+const splitSentences = (text: string): string[] => {
+  const Segmenter = (Intl as any).Segmenter;
+  if (Segmenter) {
+    const segmenter = new Segmenter(undefined, { granularity: 'sentence' });
+    return Array.from(segmenter.segment(text) as Iterable<{ segment: string }>)
+      .map(s => s.segment.trim())
+      .filter(Boolean);
+  }
+  return (text.match(/[^.!?。！？]+[.!?。！？]*["'”’)\]]*\s*/g) || [text]).map(s => s.trim()).filter(Boolean);
+};
+
+/**
+ * Breaks a sentence that is too long for one cue at word boundaries, or at
+ * character boundaries for text written without spaces.
+ */
+const splitLongSentence = (sentence: string): string[] => {
+  const maxChars = WIDE_CHAR.test(sentence) ? MAX_CUE_CHARS_WIDE : MAX_CUE_CHARS_LATIN;
+  if (sentence.length <= maxChars) return [sentence];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const word of sentence.split(/\s+/)) {
+    if (word.length > maxChars) {
+      if (current) { parts.push(current); current = ''; }
+      for (let i = 0; i < word.length; i += maxChars) parts.push(word.slice(i, i + maxChars));
+      continue;
+    }
+    const next = current ? `${current} ${word}` : word;
+    if (next.length > maxChars && current) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = next;
+    }
+  }
+  if (current) parts.push(current);
+  return parts;
+};
+
+const charCount = (text: string) => text.replace(/\s/g, '').length;
+
+export const splitIntoCueTexts = (script: string): string[] =>
+  splitSentences(script.replace(/\s+/g, ' ').trim()).flatMap(splitLongSentence);
+
+// How long a cue may stay up into the pause after it
+const CUE_HOLD_SECONDS = 0.6;
+
+/**
+ * Times each sentence (or line-sized part of one) of a segment from its word
+ * timings, so captions follow the same clock as the player's highlighting.
+ * Each cue keeps its words, and in dialogue mode the host who speaks it;
+ * narration markup never shows on screen.
+ */
+export const buildSubtitleCues = (timeline: TimelineEntry[], dialogue?: DialogueSettings): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  for (const entry of timeline) {
+    if (!entry.narration?.script.trim()) continue;
+    // On aligned multi-language timelines the slide can outlast its own narration
+    const spoken = Math.min(entry.narration.audioBuffer?.duration ?? entry.duration, entry.duration);
+    const words = getNarrationWords(entry.narration, dialogue, spoken);
+    if (words.length === 0) continue;
+
+    // Cues hold the same characters as the words, so cue boundaries map through them
+    const wordEnds: number[] = [];
+    words.reduce((acc, w) => { wordEnds.push(acc + charCount(w.text)); return acc + charCount(w.text); }, 0);
+    const timeAt = (chars: number, isEnd: boolean) => {
+      const k = wordEnds.findIndex(end => isEnd ? chars <= end : chars < end);
+      if (k < 0) return words[words.length - 1].end;
+      const from = k > 0 ? wordEnds[k - 1] : 0;
+      const t = (chars - from) / Math.max(wordEnds[k] - from, 1);
+      return entry.start + words[k].start + t * (words[k].end - words[k].start);
+    };
+
+    const turns = isDialogue(dialogue)
+      ? parseDialogue(entry.narration.script, dialogue.hosts)
+      : [{ speaker: undefined, text: entry.narration.script }];
+    const segmentCues: SubtitleCue[] = [];
+    let cursor = 0;
+    for (const turn of turns) {
+      for (const text of splitIntoCueTexts(stripMarkup(turn.text))) {
+        const cueWords = text.split(' ').map(word => {
+          const start = timeAt(cursor, false);
+          cursor += charCount(word);
+          return { text: word, start, end: timeAt(cursor, true) };
+        });
+        segmentCues.push({ start: cueWords[0].start, end: cueWords[cueWords.length - 1].end, text, speaker: turn.speaker, words: cueWords });
+      }
+    }
+    // Bridge short pauses so captions do not flicker off between sentences
+    segmentCues.forEach((cue, i) => {
+      const next = segmentCues[i + 1]?.start ?? entry.start + spoken;
+      cue.end = Math.max(cue.end, Math.min(next, cue.end + CUE_HOLD_SECONDS));
+    });
+    cues.push(...segmentCues);
+  }
+  return cues;
+};
+
+// Cue text with its speaker label, as shown in SRT files and burned-in captions
+export const formatCueText = (cue: SubtitleCue): string =>
+  cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+
+export const findCueAt = (cues: SubtitleCue[], time: number): number =>
+  cues.findIndex(c => time >= c.start && time < c.end);
+
+export const formatTimestamp = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${formatCueText(cue)}\n`).join('\n');
+
+export const toWebVtt = (cues: SubtitleCue[]): string =>
+  `WEBVTT\n\n${cues.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.speaker ? `<v ${cue.speaker}>` : ''}${cue.text}\n`).join('\n')}`;
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+  enabled: false,
+  fontFamily: 'Inter, "Noto Sans KR", sans-serif',
+  fontSize: 4.5,
+  position: 'bottom',
+  background: true,
+  backgroundOpacity: 0.6,
+};
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const wrapLines = (ctx: Canvas2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  // Split on spaces, and between wide glyphs so Korean/Japanese lines can still break
+  const tokens = text.split(/(\s+)/).flatMap(t => WIDE_CHAR.test(t) && !/\s/.test(t) && ctx.measureText(t).width > maxWidth ? Array.from(t) : [t]);
+  for (const token of tokens) {
+    const next = current + token;
+    if (ctx.measureText(next.trim()).width > maxWidth && current.trim()) {
+      lines.push(current.trim());
+      current = token.trimStart();
+    } else {
+      current = next;
+    }
+  }
+  if (current.trim()) lines.push(current.trim());
+  return lines;
+};
+
+/**
+ * Draws a caption onto a video frame. Sizes are relative to the frame height
+ * so the same style looks identical at every resolution scale.
+ */
+export const drawCaption = (ctx: Canvas2D, text: string, width: number, height: number, style: CaptionStyle) => {
+  const fontSize = Math.round((style.fontSize / 100) * height);
+  const padding = Math.round(fontSize * 0.4);
+  const lineHeight = Math.round(fontSize * 1.3);
+  const margin = Math.round(height * 0.06);
+
+  ctx.save();
+  ctx.font = `600 ${fontSize}px ${style.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const lines = wrapLines(ctx, text, width * 0.84);
+  const blockHeight = lines.length * lineHeight;
+  const top = style.position === 'top'
+    ? margin
+    : style.position === 'middle'
+      ? (height - blockHeight) / 2
+      : height - margin - blockHeight;
+
+  lines.forEach((line, i) => {
+    const y = top + i * lineHeight + lineHeight / 2;
+    if (style.background) {
+      const lineWidth = ctx.measureText(line).width;
+      ctx.fillStyle = `rgba(0, 0, 0, ${style.backgroundOpacity})`;
+      ctx.fillRect(width / 2 - lineWidth / 2 - padding, y - lineHeight / 2, lineWidth + padding * 2, lineHeight);
+    } else {
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.9)';
+      ctx.shadowBlur = fontSize * 0.25;
+    }
+    ctx.fillStyle = '#ffffff';
+    ctx.fillText(line, width / 2, y);
+  });
+  ctx.restore();
+};
@@ -0,0 +1,66 @@
+import { AspectRatio, NarrationSegment, ResolutionScale, SlideData } from '../types';
+
+// How long a slide without narration audio stays on screen
+export const SILENT_SLIDE_SECONDS = 3;
+
+export interface TimelineEntry {
+  slide: SlideData;
+  narration?: NarrationSegment;
+  start: number; // seconds
+  duration: number; // seconds
+}
+
+/**
+ * Lays the slides out back to back, each lasting as long as its narration
+ * audio, in slide index order.
+ */
+export const buildTimeline = (slides: SlideData[], narrations: NarrationSegment[]): TimelineEntry[] => {
+  const sortedSlides = [...slides].sort((a, b) => a.index - b.index);
+  let start = 0;
+  return sortedSlides.map(slide => {
+    const narration = narrations.find(n => n.slideIndex === slide.index);
+    const duration = narration?.audioBuffer ? narration.audioBuffer.duration : SILENT_SLIDE_SECONDS;
+    const entry = { slide, narration, start, duration };
+    start += duration;
+    return entry;
+  });
+};
+
+/**
+ * Lays out several narration sets (one per language) on shared slide timings:
+ * each slide lasts as long as its longest narration, so one video track fits
+ * every audio track. Returns one timeline per set, in the same order.
+ */
+export const alignTimelines = (slides: SlideData[], narrationSets: NarrationSegment[][]): TimelineEntry[][] => {
+  const own = narrationSets.map(narrations => buildTimeline(slides, narrations));
+  if (own.length === 0) return [];
+  let start = 0;
+  const shared = own[0].map((_, i) => {
+    const duration = Math.max(...own.map(timeline => timeline[i].duration));
+    const slot = { start, duration };
+    start += duration;
+    return slot;
+  });
+  return own.map(timeline => timeline.map((entry, i) => ({ ...entry, ...shared[i] })));
+};
+
+export const getTimelineDuration = (timeline: TimelineEntry[]): number =>
+  timeline.length > 0 ? timeline[timeline.length - 1].start + timeline[timeline.length - 1].duration : 0;
+
+export const findTimelineEntry = (timeline: TimelineEntry[], time: number): number => {
+  for (let i = timeline.length - 1; i >= 0; i--) {
+    if (time >= timeline[i].start) return i;
+  }
+  return 0;
+};
+
+export const getCanvasSize = (aspectRatio: AspectRatio, resolutionScale: ResolutionScale) => {
+  let baseWidth = 1280, baseHeight = 720;
+  switch (aspectRatio) {
+    case '9:16': baseWidth = 720; baseHeight = 1280; break;
+    case '1:1': baseWidth = 1080; baseHeight = 1080; break;
+    case '4:3': baseWidth = 1024; baseHeight = 768; break;
+    default: baseWidth = 1280; baseHeight = 720; break;
+  }
+  return { width: baseWidth * resolutionScale, height: baseHeight * resolutionScale };
+};
@@ -0,0 +1,105 @@
+import { AspectRatio, SlideData, TitleCard } from '../types';
+import { getCanvasSize } from './timeline';
+import { MODEL_IMAGE_EDGE, THUMBNAIL_EDGE } from './slideSources';
+import { BACKGROUND } from './frameRenderer';
+
+const TITLE_COLOR = '#f8fafc';
+const SUBTITLE_COLOR = '#94a3b8';
+const FONT_FAMILY = 'Inter, "Noto Sans KR", sans-serif';
+const MAX_TEXT_WIDTH = 0.8; // fraction of the card width
+
+export const DEFAULT_TITLE_CARD: TitleCard = { title: 'Section title', subtitle: '' };
+
+type Canvas2D = OffscreenCanvasRenderingContext2D;
+
+// Greedy word wrap; words longer than a line are left to overflow rather than split
+const wrapText = (ctx: Canvas2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Draws a title card at the given size: the title centred, the subtitle below it.
+ */
+export const renderTitleCard = (card: TitleCard, width: number, height: number): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(Math.max(1, Math.round(width)), Math.max(1, Math.round(height)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const unit = Math.min(canvas.width, canvas.height);
+  const titleSize = unit * 0.09;
+  const subtitleSize = unit * 0.045;
+  const maxWidth = canvas.width * MAX_TEXT_WIDTH;
+
+  ctx.font = `700 ${titleSize}px ${FONT_FAMILY}`;
+  const titleLines = wrapText(ctx, card.title, maxWidth);
+  ctx.font = `400 ${subtitleSize}px ${FONT_FAMILY}`;
+  const subtitleLines = wrapText(ctx, card.subtitle, maxWidth);
+
+  const titleLead = titleSize * 1.2;
+  const subtitleLead = subtitleSize * 1.4;
+  const gap = subtitleLines.length > 0 ? subtitleSize : 0;
+  const total = titleLines.length * titleLead + gap + subtitleLines.length * subtitleLead;
+  let y = (canvas.height - total) / 2;
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = TITLE_COLOR;
+  ctx.font = `700 ${titleSize}px ${FONT_FAMILY}`;
+  for (const line of titleLines) {
+    ctx.fillText(line, canvas.width / 2, y);
+    y += titleLead;
+  }
+  y += gap;
+  ctx.fillStyle = SUBTITLE_COLOR;
+  ctx.font = `400 ${subtitleSize}px ${FONT_FAMILY}`;
+  for (const line of subtitleLines) {
+    ctx.fillText(line, canvas.width / 2, y);
+    y += subtitleLead;
+  }
+  return canvas;
+};
+
+const toDataUrl = (canvas: OffscreenCanvas, type: string): Promise<string> =>
+  canvas.convertToBlob({ type, quality: 0.85 }).then(blob => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  }));
+
+/**
+ * A slide for the card, drawn in the project's aspect ratio at the same sizes
+ * as rasterized PDF pages. Export draws it again at the video resolution.
+ */
+export const createTitleCardSlide = async (card: TitleCard, aspectRatio: AspectRatio): Promise<SlideData> => {
+  const { width, height } = getCanvasSize(aspectRatio, 1);
+  const sizeFor = (edge: number) => {
+    const scale = edge / Math.max(width, height);
+    return [width * scale, height * scale] as const;
+  };
+  const [imageWidth, imageHeight] = sizeFor(MODEL_IMAGE_EDGE);
+  const [thumbWidth, thumbHeight] = sizeFor(THUMBNAIL_EDGE);
+  return {
+    index: 0,
+    image: await toDataUrl(renderTitleCard(card, imageWidth, imageHeight), 'image/png'),
+    thumbnail: await toDataUrl(renderTitleCard(card, thumbWidth, thumbHeight), 'image/jpeg'),
+    text: [card.title, card.subtitle].filter(Boolean).join('\n'),
+    card,
+  };
+};
@@ -0,0 +1,294 @@
+import {
+  AudioCodec,
+  BufferTarget,
+  EncodedAudioPacketSource,
+  EncodedPacket,
+  EncodedVideoPacketSource,
+  Mp4OutputFormat,
+  Output,
+  TextSubtitleSource,
+  VideoCodec,
+  WebMOutputFormat,
+} from 'mediabunny';
+import { AppLanguage, AspectRatio, CaptionStyle, DialogueSettings, NarrationSegment, ResolutionScale, SlideData, SlideEffects, VideoContainer } from '../types';
+import { alignTimelines, findTimelineEntry, getCanvasSize, getTimelineDuration } from './timeline';
+import { renderPresentationAudio } from './audioMix';
+import { MusicBed } from './music';
+import { buildSubtitleCues, drawCaption, findCueAt, formatCueText, toWebVtt } from './subtitles';
+import { getLanguageInfo } from './languages';
+import { DEFAULT_SLIDE_EFFECTS, MOTION_ZOOM, renderFrame } from './frameRenderer';
+import { closePdfDecks, renderPdfSlide } from './pdf';
+import { closePptxDecks, renderPptxSlide } from './pptx';
+import { renderImageSlide } from './slideSources';
+import { renderTitleCard } from './titleCard';
+
+const FPS = 30;
+const KEYFRAME_INTERVAL_SEC = 2;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_BITRATE = 192000;
+const AUDIO_CHUNK_FRAMES = 4800;
+const MAX_ENCODE_QUEUE = 8;
+
+export interface ExportNarrationTrack {
+  language: AppLanguage;
+  narrations: NarrationSegment[];
+}
+
+export interface VideoExportOptions {
+  container: VideoContainer;
+  aspectRatio: AspectRatio;
+  resolutionScale: ResolutionScale;
+  captionStyle?: CaptionStyle;
+  effects?: SlideEffects;
+  music?: MusicBed;
+  dialogue?: DialogueSettings; // labels caption cues with the speaking host
+  onProgress?: (frame: number, totalFrames: number) => void;
+}
+
+export const VIDEO_MIME_TYPES: Record<VideoContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+};
+
+// Codec strings to try in order; H.264 levels rise so 4K/5K frames still find a match
+const VIDEO_CODECS: Record<VideoContainer, { codec: string; muxerCodec: VideoCodec }[]> = {
+  mp4: [
+    { codec: 'avc1.640033', muxerCodec: 'avc' },
+    { codec: 'avc1.640034', muxerCodec: 'avc' },
+    { codec: 'avc1.64003C', muxerCodec: 'avc' },
+    { codec: 'avc1.64003E', muxerCodec: 'avc' },
+  ],
+  webm: [
+    { codec: 'vp09.00.51.08', muxerCodec: 'vp9' },
+    { codec: 'vp8', muxerCodec: 'vp8' },
+  ],
+};
+
+// AAC encoding is not available on every platform, so MP4 falls back to Opus
+const AUDIO_CODECS: Record<VideoContainer, { codec: string; muxerCodec: AudioCodec }[]> = {
+  mp4: [
+    { codec: 'mp4a.40.2', muxerCodec: 'aac' },
+    { codec: 'opus', muxerCodec: 'opus' },
+  ],
+  webm: [
+    { codec: 'opus', muxerCodec: 'opus' },
+  ],
+};
+
+export const isWebCodecsSupported = (): boolean =>
+  typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const pickVideoConfig = async (container: VideoContainer, base: Omit<VideoEncoderConfig, 'codec'>) => {
+  for (const candidate of VIDEO_CODECS[container]) {
+    const config = { ...base, codec: candidate.codec };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return { config, muxerCodec: candidate.muxerCodec };
+  }
+  throw new Error(`이 브라우저는 ${base.width}x${base.height} ${container.toUpperCase()} 동영상 인코딩을 지원하지 않습니다.`);
+};
+
+const pickAudioConfig = async (container: VideoContainer, base: Omit<AudioEncoderConfig, 'codec'>) => {
+  for (const candidate of AUDIO_CODECS[container]) {
+    const config = { ...base, codec: candidate.codec };
+    const { supported } = await AudioEncoder.isConfigSupported(config);
+    if (supported) return { config, muxerCodec: candidate.muxerCodec };
+  }
+  throw new Error(`이 브라우저는 ${container.toUpperCase()} 오디오 인코딩을 지원하지 않습니다.`);
+};
+
+const loadBitmap = async (dataUrl: string): Promise<ImageBitmap> =>
+  createImageBitmap(await (await fetch(dataUrl)).blob());
+
+/**
+ * Title cards are drawn again at the export size, and PDF, PPTX and image
+ * slides from their source files with room for the motion zoom; anything
+ * without a loaded source (or that fails to render) uses its stored image.
+ */
+const loadSlideBitmap = async (slide: SlideData, width: number, height: number): Promise<ImageBitmap> => {
+  if (slide.card) return renderTitleCard(slide.card, width, height).transferToImageBitmap();
+  const scale = 1 + MOTION_ZOOM;
+  const render = slide.source?.kind === 'pptx' ? renderPptxSlide
+    : slide.source?.kind === 'image' ? renderImageSlide
+    : renderPdfSlide;
+  const rendered = await render(slide, width * scale, height * scale).catch(err => {
+    console.error(err);
+    return null;
+  });
+  return rendered || loadBitmap(slide.image);
+};
+
+const encodeAudio = async (mix: AudioBuffer, encoder: AudioEncoder) => {
+  for (let offset = 0; offset < mix.length; offset += AUDIO_CHUNK_FRAMES) {
+    const frames = Math.min(AUDIO_CHUNK_FRAMES, mix.length - offset);
+    const data = new Float32Array(frames * mix.numberOfChannels);
+    for (let c = 0; c < mix.numberOfChannels; c++) {
+      data.set(mix.getChannelData(c).subarray(offset, offset + frames), c * frames);
+    }
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: mix.sampleRate,
+      numberOfFrames: frames,
+      numberOfChannels: mix.numberOfChannels,
+      timestamp: Math.round((offset / mix.sampleRate) * 1e6),
+      data,
+    });
+    encoder.encode(audioData);
+    audioData.close();
+  }
+  await encoder.flush();
+};
+
+/**
+ * Renders the presentation frame by frame with WebCodecs and muxes it into
+ * MP4 (H.264/AAC) or WebM (VP9/Opus). Runs as fast as the encoder allows and
+ * does not depend on the tab staying in the foreground.
+ *
+ * With several narration tracks the file gets one audio track and one WebVTT
+ * subtitle track per language, on slide timings shared by all of them; burned-in
+ * captions are only drawn for single-language exports.
+ */
+export const exportVideo = async (
+  slides: SlideData[],
+  tracks: ExportNarrationTrack[],
+  options: VideoExportOptions
+): Promise<Blob> => {
+  if (!isWebCodecsSupported()) {
+    throw new Error("이 브라우저는 WebCodecs를 지원하지 않습니다. 최신 Chrome 또는 Edge를 사용하세요.");
+  }
+  if (tracks.length === 0) throw new Error("내보낼 내레이션 트랙이 없습니다.");
+
+  const { container, aspectRatio, resolutionScale, captionStyle, effects = DEFAULT_SLIDE_EFFECTS, onProgress } = options;
+  const { width, height } = getCanvasSize(aspectRatio, resolutionScale);
+  const timelines = alignTimelines(slides, tracks.map(t => t.narrations));
+  const timeline = timelines[0];
+  const isMultiTrack = tracks.length > 1;
+  const cues = captionStyle?.enabled && !isMultiTrack ? buildSubtitleCues(timeline, options.dialogue) : [];
+  const totalFrames = Math.max(1, Math.ceil(getTimelineDuration(timeline) * FPS));
+
+  const targetBitrate = 12000000 * resolutionScale * resolutionScale;
+  const video = await pickVideoConfig(container, {
+    width,
+    height,
+    bitrate: Math.min(targetBitrate, 100000000),
+    framerate: FPS,
+  });
+  const audio = await pickAudioConfig(container, {
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: AUDIO_CHANNELS,
+    bitrate: AUDIO_BITRATE,
+  });
+
+  const target = new BufferTarget();
+  const output = new Output({
+    format: container === 'mp4' ? new Mp4OutputFormat({ fastStart: 'in-memory' }) : new WebMOutputFormat(),
+    target,
+  });
+  const videoSource = new EncodedVideoPacketSource(video.muxerCodec);
+  output.addVideoTrack(videoSource, { frameRate: FPS });
+  const audioSources = tracks.map(track => {
+    const source = new EncodedAudioPacketSource(audio.muxerCodec);
+    const language = getLanguageInfo(track.language);
+    output.addAudioTrack(source, { languageCode: language.isoCode, name: language.label });
+    return source;
+  });
+  const subtitleSources = isMultiTrack
+    ? tracks.map(track => {
+        const source = new TextSubtitleSource('webvtt');
+        const language = getLanguageInfo(track.language);
+        output.addSubtitleTrack(source, { languageCode: language.isoCode, name: language.label });
+        return source;
+      })
+    : [];
+  await output.start();
+
+  // Encoder callbacks are synchronous; packets are queued onto the muxer in output order
+  let encoderError: Error | null = null;
+  let muxing: Promise<void> = Promise.resolve();
+  const enqueue = (add: () => Promise<void>) => {
+    muxing = muxing.then(add).catch(e => { encoderError = encoderError || e; });
+  };
+
+  const videoEncoder = new VideoEncoder({
+    output: (chunk, meta) => enqueue(() => videoSource.add(EncodedPacket.fromEncodedChunk(chunk), meta)),
+    error: (e) => { encoderError = e; },
+  });
+  videoEncoder.configure(video.config);
+
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas context failed");
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+
+  // Only the current slide and the one it transitions from are kept decoded
+  const bitmaps = new Map<number, ImageBitmap>();
+  const audioEncoders: AudioEncoder[] = [];
+
+  try {
+    for (let i = 0; i < tracks.length; i++) {
+      const source = audioSources[i];
+      const audioEncoder = new AudioEncoder({
+        output: (chunk, meta) => enqueue(() => source.add(EncodedPacket.fromEncodedChunk(chunk), meta)),
+        error: (e) => { encoderError = e; },
+      });
+      audioEncoders.push(audioEncoder);
+      audioEncoder.configure(audio.config);
+      await encodeAudio(await renderPresentationAudio(timelines[i], AUDIO_SAMPLE_RATE, AUDIO_CHANNELS, options.music), audioEncoder);
+      await muxing;
+      source.close();
+    }
+
+    for (let i = 0; i < subtitleSources.length; i++) {
+      await subtitleSources[i].add(toWebVtt(buildSubtitleCues(timelines[i], options.dialogue)));
+      subtitleSources[i].close();
+    }
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (encoderError) throw encoderError;
+
+      const time = frame / FPS;
+      const entryIndex = findTimelineEntry(timeline, time);
+      for (const i of [entryIndex - 1, entryIndex]) {
+        if (i >= 0 && !bitmaps.has(i)) bitmaps.set(i, await loadSlideBitmap(timeline[i].slide, width, height));
+      }
+      for (const [i, bitmap] of bitmaps) {
+        if (i < entryIndex - 1) { bitmap.close(); bitmaps.delete(i); }
+      }
+
+      renderFrame(ctx, width, height, timeline, time, effects, slide =>
+        bitmaps.get(timeline.findIndex(e => e.slide === slide)));
+      const cueIndex = findCueAt(cues, time);
+      if (captionStyle && cueIndex >= 0) drawCaption(ctx, formatCueText(cues[cueIndex]), width, height, captionStyle);
+
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round((frame * 1e6) / FPS),
+        duration: Math.round(1e6 / FPS),
+      });
+      videoEncoder.encode(videoFrame, { keyFrame: frame % (FPS * KEYFRAME_INTERVAL_SEC) === 0 });
+      videoFrame.close();
+
+      if (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => videoEncoder.addEventListener('dequeue', resolve, { once: true }));
+      }
+      onProgress?.(frame + 1, totalFrames);
+    }
+
+    await videoEncoder.flush();
+    await muxing;
+    if (encoderError) throw encoderError;
+    videoSource.close();
+    await output.finalize();
+  } catch (err) {
+    if (output.state !== 'finalized') await output.cancel();
+    throw err;
+  } finally {
+    bitmaps.forEach(bitmap => bitmap.close());
+    closePdfDecks().catch(err => console.error(err));
+    closePptxDecks();
+    if (videoEncoder.state !== 'closed') videoEncoder.close();
+    audioEncoders.forEach(encoder => { if (encoder.state !== 'closed') encoder.close(); });
+  }
+
+  return new Blob([target.buffer!], { type: VIDEO_MIME_TYPES[container] });
+};
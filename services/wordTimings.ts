@@ -0,0 +1,187 @@
+import { DialogueSettings, NarrationSegment, WordTiming } from '../types';
+import { getWordTimings } from './speech';
+import { isDialogue, parseDialogue } from './dialogue';
+import { stripMarkup } from './speechMarkup';
+
+/**
+ * When each word of a narration is spoken. Provider timings are used as they
+ * are when they match the script word for word; otherwise the words are laid
+ * over the stretches of speech, found from the provider's timings or from the
+ * audio's energy, in proportion to their length.
+ */
+
+export interface SpokenWord extends WordTiming {
+  speaker?: string; // dialogue host
+}
+
+interface TimeSpan {
+  start: number;
+  end: number;
+}
+
+// Energy is measured over frames of this length
+const FRAME_SECONDS = 0.01;
+// Quieter stretches shorter than this sit inside or between words, not between phrases
+const MIN_GAP_SECONDS = 0.12;
+const MIN_RUN_SECONDS = 0.05;
+// Speech is anything louder than this fraction of the loud end of the segment
+const SPEECH_THRESHOLD = 0.08;
+// Clause and sentence ends move onto a pause this close to where they would fall
+const SNAP_SECONDS = 0.6;
+
+const CLAUSE_END = /[.,!?;:…。、，！？；：]["'”’)\]]*$/;
+
+/**
+ * The stretches of a buffer that contain speech, found from short-term RMS
+ * energy against a threshold that follows the voice's level.
+ */
+export const detectVoicedRuns = (buffer: AudioBuffer): TimeSpan[] => {
+  const frame = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const frameCount = Math.floor(buffer.length / frame);
+  if (frameCount === 0) return [];
+
+  const energy = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = f * frame; i < (f + 1) * frame; i++) sum += data[i] * data[i];
+    }
+    energy[f] = Math.sqrt(sum / (frame * channels.length));
+  }
+
+  const sorted = Array.from(energy).sort((a, b) => a - b);
+  const loud = sorted[Math.floor(frameCount * 0.95)];
+  const floor = sorted[Math.floor(frameCount * 0.1)];
+  if (loud < 1e-4) return [];
+  const threshold = Math.max(loud * SPEECH_THRESHOLD, floor * 2);
+
+  const runs: TimeSpan[] = [];
+  for (let f = 0; f < frameCount; f++) {
+    if (energy[f] < threshold) continue;
+    const start = f * FRAME_SECONDS;
+    const last = runs[runs.length - 1];
+    if (last && start - last.end < MIN_GAP_SECONDS) last.end = start + FRAME_SECONDS;
+    else runs.push({ start, end: start + FRAME_SECONDS });
+  }
+  return runs.filter(r => r.end - r.start >= MIN_RUN_SECONDS);
+};
+
+// Joins spans with only a short gap between them into one
+const mergeSpans = (spans: TimeSpan[]): TimeSpan[] =>
+  spans.reduce<TimeSpan[]>((runs, span) => {
+    const last = runs[runs.length - 1];
+    if (last && span.start - last.end < MIN_GAP_SECONDS) last.end = Math.max(last.end, span.end);
+    else runs.push({ start: span.start, end: span.end });
+    return runs;
+  }, []);
+
+// A word's share of the speaking time: its visible characters
+const wordWeight = (text: string) => Math.max(text.replace(/\s/g, '').length, 1);
+
+/**
+ * Lays the words over the voiced spans, skipping the silences between them.
+ * Words ending a clause are pulled onto the nearest pause when one is close.
+ */
+export const alignWords = (texts: string[], runs: TimeSpan[], duration: number): WordTiming[] => {
+  if (texts.length === 0) return [];
+  const spans = runs.length > 0 ? runs : [{ start: 0, end: duration }];
+  const lengths = spans.map(s => s.end - s.start);
+  const voiced = lengths.reduce((a, b) => a + b, 0);
+
+  // Pauses, as positions on the voiced-only time axis
+  const pauses: number[] = [];
+  lengths.slice(0, -1).reduce((acc, length) => { pauses.push(acc + length); return acc + length; }, 0);
+
+  // Word boundaries on the voiced axis: proportional first, then snapped to pauses
+  const weights = texts.map(wordWeight);
+  const total = weights.reduce((a, b) => a + b, 0);
+  const ideal = [0];
+  weights.forEach(w => ideal.push(ideal[ideal.length - 1] + (w / total) * voiced));
+
+  const anchors: { index: number; position: number }[] = [{ index: 0, position: 0 }];
+  let nextPause = 0;
+  texts.forEach((text, i) => {
+    if (i === texts.length - 1 || !CLAUSE_END.test(text)) return;
+    const boundary = ideal[i + 1];
+    const last = anchors[anchors.length - 1].position;
+    let best = -1;
+    for (let p = nextPause; p < pauses.length; p++) {
+      if (pauses[p] <= last) continue;
+      if (Math.abs(pauses[p] - boundary) > SNAP_SECONDS) {
+        if (pauses[p] > boundary) break;
+        continue;
+      }
+      if (best < 0 || Math.abs(pauses[p] - boundary) < Math.abs(pauses[best] - boundary)) best = p;
+    }
+    if (best >= 0) {
+      anchors.push({ index: i + 1, position: pauses[best] });
+      nextPause = best + 1;
+    }
+  });
+  anchors.push({ index: texts.length, position: voiced });
+
+  const positions = [...ideal];
+  for (let a = 1; a < anchors.length; a++) {
+    const from = anchors[a - 1], to = anchors[a];
+    const span = ideal[to.index] - ideal[from.index];
+    for (let i = from.index; i <= to.index; i++) {
+      const t = span > 0 ? (ideal[i] - ideal[from.index]) / span : 0;
+      positions[i] = from.position + t * (to.position - from.position);
+    }
+  }
+
+  // Back to real time; a word starting exactly on a pause starts after it
+  const toTime = (position: number, isStart: boolean) => {
+    let acc = 0;
+    for (let s = 0; s < spans.length; s++) {
+      const inside = isStart ? position < acc + lengths[s] : position <= acc + lengths[s];
+      if (inside) return spans[s].start + Math.max(0, position - acc);
+      acc += lengths[s];
+    }
+    return spans[spans.length - 1].end;
+  };
+  return texts.map((text, i) => ({ text, start: toTime(positions[i], true), end: toTime(positions[i + 1], false) }));
+};
+
+const splitWords = (text: string) => stripMarkup(text).split(/\s+/).filter(Boolean);
+
+const timingCache = new WeakMap<AudioBuffer, { script: string; dialogue: string; words: SpokenWord[] }>();
+
+/**
+ * Every word of a segment's script as shown on screen (markup removed, without
+ * speaker labels), timed against its audio. Segments without audio spread
+ * their words over `fallbackDuration`.
+ */
+export const getNarrationWords = (
+  narration: NarrationSegment,
+  dialogue: DialogueSettings | undefined,
+  fallbackDuration: number
+): SpokenWord[] => {
+  const buffer = narration.audioBuffer;
+  const dialogueKey = isDialogue(dialogue) ? dialogue.hosts.map(h => h.name).join('\n') : '';
+  const cached = buffer && timingCache.get(buffer);
+  if (cached && cached.script === narration.script && cached.dialogue === dialogueKey) return cached.words;
+
+  const turns = isDialogue(dialogue)
+    ? parseDialogue(narration.script, dialogue.hosts).map(t => ({ speaker: t.speaker as string | undefined, words: splitWords(t.text) }))
+    : [{ speaker: undefined, words: splitWords(narration.script) }];
+  const texts = turns.flatMap(t => t.words);
+  const speakers = turns.flatMap(t => t.words.map(() => t.speaker));
+
+  let timed: WordTiming[];
+  const reported = getWordTimings(buffer);
+  if (reported && reported.length === texts.length) {
+    timed = reported.map((w, i) => ({ ...w, text: texts[i] }));
+  } else if (reported) {
+    timed = alignWords(texts, mergeSpans(reported), buffer!.duration);
+  } else if (buffer) {
+    timed = alignWords(texts, detectVoicedRuns(buffer), buffer.duration);
+  } else {
+    timed = alignWords(texts, [], fallbackDuration);
+  }
+
+  const words = timed.map((w, i) => ({ ...w, speaker: speakers[i] }));
+  if (buffer) timingCache.set(buffer, { script: narration.script, dialogue: dialogueKey, words });
+  return words;
+};
@@ -1,35 +1,223 @@
 
+export type TransitionType = 'cut' | 'crossfade' | 'push' | 'fadeBlack';
+
+export type MotionType = 'none' | 'zoomIn' | 'zoomOut' | 'panLeft' | 'panRight';
+
+export interface SlideEffects {
+  transition: TransitionType; // how this slide enters
+  transitionDuration: number; // seconds
+  motion: MotionType;
+}
+
+export type SlideSourceKind = 'pdf' | 'pptx' | 'image';
+
+// Where a slide was rasterized from, so it can be rendered again at export resolution
+export interface SlideSource {
+  kind?: SlideSourceKind; // missing on slides saved before PPTX and image sources were kept (always PDFs)
+  deck: string; // id of the file kept by services/slideSources
+  page: number; // 1-based; slide number for PPTX, 1 for images
+}
+
+// A generated text slide inserted in the organizer
+export interface TitleCard {
+  title: string;
+  subtitle: string;
+}
+
+// What the vision pass read off a slide image; editable before scripting
+export interface SlideAnalysis {
+  title: string;
+  keyPoints: string[];
+  visuals: string; // charts, tables and diagrams, read out in words
+  extractedText: string; // all text visible on the slide
+}
+
 export interface SlideData {
   index: number;
-  image: string; // Base64
+  image: string; // Base64, model-sized for rasterized PDFs, PPTX slides and uploaded images
+  thumbnail?: string; // small preview for slide lists
+  source?: SlideSource;
+  card?: TitleCard; // set for title cards, which are drawn rather than rasterized
+  text: string;
+  notes?: string; // speaker notes from imported decks
+  analysis?: SlideAnalysis;
+  effects?: Partial<SlideEffects>; // per-slide overrides of AppState.effects
+}
+
+// How speaker notes seed the narration: read as-is, rewritten in the chosen tone, or not used
+export type NotesMode = 'verbatim' | 'polish' | 'ignore';
+
+export type SegmentStatus = 'stale' | 'voicing' | 'done';
+
+// One spoken word, in seconds from the start of its segment's audio
+export interface WordTiming {
   text: string;
+  start: number;
+  end: number;
 }
 
 export interface NarrationSegment {
   slideIndex: number;
   script: string;
   audioBuffer?: AudioBuffer;
+  status?: SegmentStatus; // 'stale' when the script no longer matches audioBuffer
 }
 
-export type ProcessingStep = 'idle' | 'parsing' | 'scripting' | 'voicing' | 'ready';
+export type ProcessingStep = 'idle' | 'parsing' | 'organizing' | 'analyzing' | 'scripting' | 'voicing' | 'ready';
 
-export type AppLanguage = 'en' | 'ko';
+export type AppLanguage = 'ko' | 'en' | 'ja' | 'es' | 'zh' | 'fr' | 'de';
 
 export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:3';
 
 export type ResolutionScale = 1 | 2 | 3 | 4;
 
+export type VideoContainer = 'mp4' | 'webm';
+
+export interface DurationFitSettings {
+  enabled: boolean;
+  tolerance: number; // allowed deviation from the target duration, as a fraction
+  maxPasses: number; // rewrite/re-voice rounds before giving up
+  timeStretch: boolean; // finish with a mild (<=10%) tempo change if still off target
+}
+
+export type MusicSource = 'none' | 'upload' | 'ambient' | 'pulse';
+
+export interface MusicSettings {
+  source: MusicSource;
+  gain: number; // 0..1 level of the music bed between narration
+  duckLevel: number; // 0..1 fraction of `gain` kept while a segment is speaking
+  fadeIn: number; // seconds
+  fadeOut: number; // seconds
+}
+
+export type AudioFormat = 'wav' | 'mp3' | 'ogg';
+
+// Mastering and encoding of the exported narration audio
+export interface AudioExportSettings {
+  mastering: boolean; // when off, segments are mixed as voiced
+  targetLufs: number; // integrated loudness each segment is normalized to
+  trimSilence: boolean; // cut silence before and after each segment
+  gap: number; // seconds of silence between slides
+  crossfade: number; // seconds each join fades over
+  ceiling: number; // limiter ceiling in dBFS
+  format: AudioFormat;
+  bitrate: number; // kbps, for MP3 and Opus
+}
+
+export interface MusicTrack {
+  name: string;
+  buffer: AudioBuffer;
+}
+
+export type CaptionPosition = 'bottom' | 'middle' | 'top';
+
+export interface CaptionStyle {
+  enabled: boolean; // burn captions into the exported video
+  fontFamily: string;
+  fontSize: number; // percent of the frame height
+  position: CaptionPosition;
+  background: boolean;
+  backgroundOpacity: number; // 0..1
+}
+
+export type ScriptProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ScriptProviderSettings {
+  id: ScriptProviderId;
+  model: string;
+  endpoint: string; // base URL for OpenAI-compatible servers, e.g. http://localhost:11434/v1
+  sendImages: boolean;
+}
+
+export type SpeechProviderId = 'gemini' | 'http' | 'stub';
+
+export interface SpeechProviderSettings {
+  id: SpeechProviderId;
+  voice: string; // empty = the provider's preferred voice for the language
+  endpoint: string; // HTTP TTS server URL that answers POST { text, voice } with WAV
+}
+
+export type NarrationMode = 'monologue' | 'dialogue';
+
+export interface DialogueHost {
+  name: string; // speaker label used in scripts and subtitles
+  role: string; // e.g. "curious interviewer", "domain expert"
+  voice: string; // empty = the provider's preferred voice
+}
+
+export interface DialogueSettings {
+  mode: NarrationMode;
+  hosts: [DialogueHost, DialogueHost];
+}
+
+export interface PronunciationEntry {
+  term: string; // as written in scripts, matched as a whole word
+  spoken: string; // what the speech engine is given instead
+}
+
+// An extra narration language translated from the primary script
+export interface TranslationSettings {
+  language: AppLanguage;
+  voice: string; // empty = the provider's preferred voice for the language
+}
+
+export interface NarrationTrack {
+  language: AppLanguage;
+  narrations: NarrationSegment[];
+}
+
 export interface AppState {
   files: File[];
   duration: number; // seconds
   style: string;
   language: AppLanguage;
+  translations: TranslationSettings[];
+  notesMode: NotesMode;
+  dialogue: DialogueSettings;
+  lexicon: PronunciationEntry[];
+  durationFit: DurationFitSettings;
   aspectRatio: AspectRatio;
   resolutionScale: ResolutionScale;
+  videoContainer: VideoContainer;
+  captionStyle: CaptionStyle;
+  effects: SlideEffects;
+  music: MusicSettings;
+  musicUpload: MusicTrack | null;
+  audioExport: AudioExportSettings;
+  scriptProvider: ScriptProviderSettings;
+  speechProvider: SpeechProviderSettings;
   slides: SlideData[];
   narrations: NarrationSegment[];
+  tracks: NarrationTrack[]; // translated narration, one per entry in `translations`
   step: ProcessingStep;
   isExporting: boolean;
   progress: number;
   error: string | null;
 }
+
+// Settings that travel with a saved project file
+export type ProjectSettings = Pick<AppState, 'duration' | 'style' | 'language' | 'translations' | 'notesMode' | 'dialogue' | 'lexicon' | 'durationFit' | 'aspectRatio' | 'resolutionScale' | 'videoContainer' | 'captionStyle' | 'effects' | 'music' | 'audioExport' | 'scriptProvider' | 'speechProvider'>;
+
+export interface SerializedAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface SerializedNarration {
+  slideIndex: number;
+  script: string;
+  status?: SegmentStatus;
+  audio?: SerializedAudio;
+  words?: WordTiming[]; // timings the speech provider reported for `audio`
+}
+
+export interface ProjectSnapshot {
+  version: number;
+  savedAt: number;
+  settings: ProjectSettings;
+  slides: SlideData[];
+  narrations: SerializedNarration[];
+  tracks?: { language: AppLanguage; narrations: SerializedNarration[] }[];
+  musicUpload?: { name: string; audio: SerializedAudio };
+  decks?: { id: string; data: ArrayBuffer }[]; // source files (PDF, PPTX, images) the slides point to
+}
@@ -1,6 +1,7 @@
 
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import { resolve } from 'node:path';
 
 export default defineConfig({
   plugins: [react()],
@@ -8,11 +9,19 @@ export default defineConfig({
   base: './', 
   define: {
     // 환경 변수 주입 방식 통일
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || '')
+    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || ''),
+    'process.env.SLIDESTREAM_SERVER_URL': JSON.stringify(process.env.SLIDESTREAM_SERVER_URL || '')
   },
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
+    // headless.html is the page the CLI renderer drives
+    rollupOptions: {
+      input: {
+        main: resolve(__dirname, 'index.html'),
+        headless: resolve(__dirname, 'headless.html'),
+      },
+    },
     // 배포 시 용량 최적화
     minify: 'esbuild',
     reportCompressedSize: false